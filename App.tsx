@@ -5,7 +5,7 @@
  * @format
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   SafeAreaView,
   StyleSheet,
@@ -20,14 +20,85 @@ import {
   TouchableOpacity,
   FlatList,
   Share,
+  Clipboard,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import LanguageSelector from './src/components/LanguageSelector';
-import { LANGUAGES } from './src/constants/languages';
+import {
+  LANGUAGES,
+  findLanguage,
+  findLanguageByFrancCode,
+  getLanguageLabel,
+  isRightToLeft,
+} from './src/constants/languages';
 import useRealtimeTranscription, {
   Transcript,
 } from './src/hooks/useRealtimeTranscription';
 import ColoredTranscript from './src/components/ColoredTranscript';
+import useSessionLibrary from './src/hooks/useSessionLibrary';
+import HistoryScreen from './src/screens/HistoryScreen';
+import ConversationScreen from './src/screens/ConversationScreen';
+import NumberSetting from './src/components/NumberSetting';
+import ProfileEditor from './src/components/ProfileEditor';
+import ExportDialog, { ExportDestination } from './src/components/ExportDialog';
+import BulkActionBar, { BulkProgress } from './src/components/BulkActionBar';
+import SpeakerEditor from './src/components/SpeakerEditor';
+import { Speaker, findSpeaker, withSpeakerName } from './src/utils/speakers';
+import {
+  ExportOptions,
+  SavedExport,
+  buildExport,
+  listSavedExports,
+  parseSessionJson,
+  readExportFile,
+  saveExportFile,
+  shareExportFile,
+} from './src/export';
+import useTranscriptionProfiles from './src/hooks/useTranscriptionProfiles';
+import useSegmentPlayer from './src/hooks/useSegmentPlayer';
+import useTranslationSpeech from './src/hooks/useTranslationSpeech';
+import useUsageTracker from './src/hooks/useUsageTracker';
+import { UsageEvent, estimateCost, formatCost } from './src/utils/usage';
+import { DEFAULT_SPEECH_VOICE, SPEECH_VOICES } from './src/providers/speech';
+import { deleteRecordings } from './src/utils/sessionAudio';
+import { DEFAULT_DETECTION_CONFIDENCE } from './src/utils/languageDetection';
+import {
+  DEFAULT_LOCAL_VAD,
+  DEFAULT_SEMANTIC_VAD,
+  DEFAULT_SERVER_VAD,
+  MANUAL_TURN_DETECTION,
+  SEMANTIC_VAD_EAGERNESS,
+  SemanticVadEagerness,
+  TRANSCRIPTION_BACKENDS,
+  TURN_DETECTION_MODES,
+  TranscriptionBackend,
+  TurnDetection,
+  buildTranscriptionPrompt,
+} from './src/providers/transcription';
+import {
+  DEEPL_FREE_API_URL,
+  TRANSLATION_BACKENDS,
+  TranslationBackend,
+} from './src/providers/translation';
+import {
+  DEFAULT_CHAT_COMPLETIONS_URL,
+  DEFAULT_REALTIME_URL,
+  DEFAULT_SPEECH_URL,
+  DEFAULT_TRANSCRIPTIONS_URL,
+  OPENAI_AUTH_SCHEMES,
+  OpenAIAuthScheme,
+  resolveOpenAIConnection,
+} from './src/providers/openAIConnection';
+
+// '' lets the model detect the spoken language itself
+const SPOKEN_LANGUAGE_AUTO = '';
+const SPOKEN_LANGUAGES = [{ label: 'Auto-detect', value: SPOKEN_LANGUAGE_AUTO }, ...LANGUAGES];
+
+// Translate chip colours, in session language order
+const TRANSLATE_CHIP_COLORS = ['#2196f3', '#ff9800', '#9c27b0', '#009688', '#e91e63', '#795548'];
+
+// '' keeps translations silent unless replayed by hand
+const SPEECH_VOICE_OPTIONS = [{ label: 'Off', value: '' }, ...SPEECH_VOICES];
 
 const MODELS = [
   { label: 'GPT-4o Mini', value: 'gpt-4o-mini-transcribe' },
@@ -36,58 +107,393 @@ const MODELS = [
 ];
 
 const API_KEY_STORAGE_KEY = 'openai_api_key';
+const AUTH_SCHEME_STORAGE_KEY = 'openai_auth_scheme';
+const AUTH_HEADER_NAME_STORAGE_KEY = 'openai_auth_header_name';
+const REALTIME_URL_STORAGE_KEY = 'openai_realtime_url';
+const REALTIME_TOKEN_URL_STORAGE_KEY = 'openai_realtime_token_url';
+const CHAT_COMPLETIONS_URL_STORAGE_KEY = 'openai_chat_completions_url';
+const TRANSCRIPTIONS_URL_STORAGE_KEY = 'openai_transcriptions_url';
+const SPEECH_URL_STORAGE_KEY = 'openai_speech_url';
+const SPEECH_VOICE_STORAGE_KEY = 'speech_voice';
 const SELECTED_MODEL_STORAGE_KEY = 'selected_model';
+const SPOKEN_LANGUAGE_STORAGE_KEY = 'spoken_language';
+const SESSION_LANGUAGES_STORAGE_KEY = 'session_languages';
+// Written by versions that only had a Language A/B pair
 const LANGUAGE_A_STORAGE_KEY = 'language_a';
 const LANGUAGE_B_STORAGE_KEY = 'language_b';
+const DETECTION_LANGUAGES_STORAGE_KEY = 'detection_languages';
+const DETECTION_CONFIDENCE_STORAGE_KEY = 'detection_confidence';
+const TRANSCRIPTION_BACKEND_STORAGE_KEY = 'transcription_backend';
+const LOCAL_SERVER_URL_STORAGE_KEY = 'local_server_url';
+const TURN_DETECTION_STORAGE_KEY = 'turn_detection';
+const TRANSLATION_BACKEND_STORAGE_KEY = 'translation_backend';
+const TRANSLATION_CONTEXT_SIZE_STORAGE_KEY = 'translation_context_size';
+const LIBRETRANSLATE_URL_STORAGE_KEY = 'libretranslate_url';
+const LIBRETRANSLATE_API_KEY_STORAGE_KEY = 'libretranslate_api_key';
+const DEEPL_URL_STORAGE_KEY = 'deepl_url';
+const DEEPL_API_KEY_STORAGE_KEY = 'deepl_api_key';
+
+// Plain text for sharing and copying: oldest first, each segment followed by its translations
+const formatTranscriptList = (transcripts: Transcript[], speakers: Speaker[]) =>
+  transcripts
+    .map((transcript) => {
+      const time = transcript.timestamp.toLocaleString();
+      let text = `[${time}] ${withSpeakerName(speakers, transcript, transcript.text)}`;
+      Object.entries(transcript.translations ?? {}).forEach(([code, translation]) => {
+        text += `\n   ${getLanguageLabel(code)}: ${translation.text}`;
+      });
+      return text;
+    })
+    .reverse()
+    .join('\n\n');
 
 export default function App() {
   const [apiKey, setApiKey] = useState('');
+  const [authScheme, setAuthScheme] = useState<OpenAIAuthScheme>('bearer');
+  const [authHeaderName, setAuthHeaderName] = useState('');
+  const [realtimeUrl, setRealtimeUrl] = useState('');
+  const [realtimeTokenUrl, setRealtimeTokenUrl] = useState('');
+  const [chatCompletionsUrl, setChatCompletionsUrl] = useState('');
+  const [transcriptionsUrl, setTranscriptionsUrl] = useState('');
+  const [speechUrl, setSpeechUrl] = useState('');
+  const [speechVoice, setSpeechVoice] = useState('');
   const [selectedModel, setSelectedModel] = useState('whisper-1');
-  const [languageA, setLanguageA] = useState('de'); // German default
-  const [languageB, setLanguageB] = useState('en'); // English default
+  const [spokenLanguage, setSpokenLanguage] = useState(SPOKEN_LANGUAGE_AUTO);
+  const [sessionLanguages, setSessionLanguages] = useState<string[]>(['de', 'en']); // German and English default
+  const [detectionLanguages, setDetectionLanguages] = useState<string[]>([]);
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [currentSpeakerId, setCurrentSpeakerId] = useState<string | null>(null);
+  const [detectionConfidence, setDetectionConfidence] = useState(DEFAULT_DETECTION_CONFIDENCE);
+  const [transcriptionBackend, setTranscriptionBackend] = useState<TranscriptionBackend>('openai-realtime');
+  const [localServerUrl, setLocalServerUrl] = useState('');
+  const [turnDetection, setTurnDetection] = useState<TurnDetection>(MANUAL_TURN_DETECTION);
+  const [translationBackend, setTranslationBackend] = useState<TranslationBackend>('openai-chat');
+  const [translationContextSize, setTranslationContextSize] = useState(0);
+  const [libreTranslateUrl, setLibreTranslateUrl] = useState('');
+  const [libreTranslateApiKey, setLibreTranslateApiKey] = useState('');
+  const [deepLUrl, setDeepLUrl] = useState(DEEPL_FREE_API_URL);
+  const [deepLApiKey, setDeepLApiKey] = useState('');
   const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set());
+  const [retranscribingIds, setRetranscribingIds] = useState<Set<string>>(new Set());
+  const [retranscribeMenuId, setRetranscribeMenuId] = useState<string | null>(null);
+  const [languageMenuId, setLanguageMenuId] = useState<string | null>(null);
+  const [speakerMenuId, setSpeakerMenuId] = useState<string | null>(null);
+  const [isSelecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkLanguage, setBulkLanguage] = useState('en');
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const bulkCancelledRef = useRef(false);
+  const [isHistoryVisible, setHistoryVisible] = useState(false);
+  const [isResumePending, setResumePending] = useState(false);
+  const [isConversationVisible, setConversationVisible] = useState(false);
+  const [isExportVisible, setExportVisible] = useState(false);
+  const [savedSessionExports, setSavedSessionExports] = useState<SavedExport[]>([]);
+  // Session whose transcripts are currently loaded into the transcription hook
+  const loadedSessionIdRef = useRef<string | null>(null);
+
+  const {
+    sessions,
+    activeSession,
+    isLoaded: isSessionLibraryLoaded,
+    loadError: sessionLoadError,
+    setActiveSessionId,
+    createSession,
+    updateSession,
+    recordSessionUsage,
+    renameSession,
+    importSession,
+    deleteSession,
+  } = useSessionLibrary();
+
+  // Nothing is saved to the library until the next successful launch
+  useEffect(() => {
+    if (sessionLoadError) {
+      Alert.alert(
+        'Sessions Unavailable',
+        'Your saved sessions could not be loaded. Changes made now will not be saved, so your stored sessions are kept as they are. Please restart the app.'
+      );
+    }
+  }, [sessionLoadError]);
+
+  const {
+    prices,
+    updatePrice,
+    monthlyBudget,
+    setMonthlyBudget,
+    currentMonthCost,
+    isOverBudget,
+    recordUsage,
+  } = useUsageTracker();
+
+  // Count usage towards the month and the open session
+  const handleUsage = useCallback(
+    (event: UsageEvent) => {
+      recordUsage(event);
+      if (loadedSessionIdRef.current) {
+        recordSessionUsage(loadedSessionIdRef.current, event);
+      }
+    },
+    [recordUsage, recordSessionUsage]
+  );
+
+  // Warn once the monthly budget is used up; auto-translation stays off until it is raised
+  useEffect(() => {
+    if (isOverBudget) {
+      Alert.alert(
+        'Budget Reached',
+        `The estimated cost this month (${formatCost(currentMonthCost)}) has reached your budget of ${formatCost(monthlyBudget)}. Automatic translation is paused.`
+      );
+    }
+    // Only alert when crossing the budget, not on every new cost
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOverBudget]);
+
+  const {
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+  } = useTranscriptionProfiles();
+
+  const { playingId, play: playSegment, stop: stopSegmentPlayback } = useSegmentPlayer();
+
+  const transcriptionPrompt = useMemo(
+    () => buildTranscriptionPrompt(activeProfile.prompt, activeProfile.vocabulary),
+    [activeProfile.prompt, activeProfile.vocabulary]
+  );
+
+  // Blank URLs fall back to the public OpenAI endpoints
+  const openAIConnection = useMemo(
+    () => ({
+      realtimeUrl,
+      chatCompletionsUrl,
+      transcriptionsUrl,
+      speechUrl,
+      authScheme,
+      customHeaderName: authHeaderName,
+      realtimeTokenUrl,
+    }),
+    [realtimeUrl, chatCompletionsUrl, transcriptionsUrl, speechUrl, authScheme, authHeaderName, realtimeTokenUrl]
+  );
+
+  const speechConnection = useMemo(() => resolveOpenAIConnection(openAIConnection), [openAIConnection]);
+  const {
+    speakingId,
+    isPlaying: isPlayingSpeech,
+    speak,
+    stop: stopSpeech,
+  } = useTranslationSpeech({
+    apiKey,
+    connection: speechConnection,
+    voice: speechVoice || DEFAULT_SPEECH_VOICE,
+  });
+
+  // Read new auto-translations aloud when a voice is chosen
+  const handleAutoTranslated = useCallback(
+    (transcriptId: string, targetLangCode: string, translatedText: string) => {
+      if (speechVoice) {
+        speak(transcriptId, [translatedText]);
+      }
+    },
+    [speechVoice, speak]
+  );
+
+  const transcriptionBackendSettings = useMemo(
+    () => ({ backend: transcriptionBackend, localServerUrl, openAIConnection }),
+    [transcriptionBackend, localServerUrl, openAIConnection]
+  );
+
+  const translationBackendSettings = useMemo(
+    () => ({
+      backend: translationBackend,
+      openAIConnection,
+      libreTranslateUrl,
+      libreTranslateApiKey,
+      deepLUrl,
+      deepLApiKey,
+    }),
+    [translationBackend, openAIConnection, libreTranslateUrl, libreTranslateApiKey, deepLUrl, deepLApiKey]
+  );
 
   const {
     finalTranscripts,
+    visibleTranscripts,
     interimTranscript,
     isRecording,
+    connectionState,
+    segmentationMode,
+    isSpeaking,
     startRecording,
     stopRecording,
     volume,
     translateTranscript,
+    setTranscriptLanguage,
+    setTranscriptSpeaker,
+    setCapturePaused,
+    retranscribeTranscript,
+    promoteAlternative,
     autoCommitCountdown,
     deleteTranscript,
     clearAllTranscripts,
+    replaceTranscripts,
     manualCommit,
   } = useRealtimeTranscription({
+    language: spokenLanguage || undefined,
+    prompt: transcriptionPrompt || undefined,
     apiKey,
     model: selectedModel,
-    languageA,
-    languageB,
+    transcriptionBackend: transcriptionBackendSettings,
+    translationBackend: translationBackendSettings,
+    turnDetection,
+    languages: sessionLanguages,
+    detectionLanguages,
+    detectionConfidence,
+    translationContextSize,
+    onAutoTranslated: handleAutoTranslated,
+    speakers,
+    currentSpeakerId,
+    autoTranslationEnabled: !isOverBudget,
+    onUsage: handleUsage,
   });
 
+  // Don't transcribe our own spoken translations
+  useEffect(() => {
+    setCapturePaused(isPlayingSpeech);
+  }, [isPlayingSpeech, setCapturePaused]);
+
+  // Languages the speakers may use, in the order they are offered
+  const detectableLanguages = Array.from(new Set([...sessionLanguages, ...detectionLanguages]));
+
   // Load persisted values on app start
   useEffect(() => {
     const loadPersistedData = async () => {
       try {
-        const [storedApiKey, storedModel, storedLanguageA, storedLanguageB] = await Promise.all([
+        const [
+          storedApiKey,
+          storedAuthScheme,
+          storedAuthHeaderName,
+          storedRealtimeUrl,
+          storedRealtimeTokenUrl,
+          storedChatCompletionsUrl,
+          storedTranscriptionsUrl,
+          storedSpeechUrl,
+          storedSpeechVoice,
+          storedModel,
+          storedSpokenLanguage,
+          storedSessionLanguages,
+          storedLanguageA,
+          storedLanguageB,
+          storedDetectionLanguages,
+          storedDetectionConfidence,
+          storedBackend,
+          storedLocalServerUrl,
+          storedTurnDetection,
+          storedTranslationBackend,
+          storedTranslationContextSize,
+          storedLibreTranslateUrl,
+          storedLibreTranslateApiKey,
+          storedDeepLUrl,
+          storedDeepLApiKey,
+        ] = await Promise.all([
           AsyncStorage.getItem(API_KEY_STORAGE_KEY),
+          AsyncStorage.getItem(AUTH_SCHEME_STORAGE_KEY),
+          AsyncStorage.getItem(AUTH_HEADER_NAME_STORAGE_KEY),
+          AsyncStorage.getItem(REALTIME_URL_STORAGE_KEY),
+          AsyncStorage.getItem(REALTIME_TOKEN_URL_STORAGE_KEY),
+          AsyncStorage.getItem(CHAT_COMPLETIONS_URL_STORAGE_KEY),
+          AsyncStorage.getItem(TRANSCRIPTIONS_URL_STORAGE_KEY),
+          AsyncStorage.getItem(SPEECH_URL_STORAGE_KEY),
+          AsyncStorage.getItem(SPEECH_VOICE_STORAGE_KEY),
           AsyncStorage.getItem(SELECTED_MODEL_STORAGE_KEY),
+          AsyncStorage.getItem(SPOKEN_LANGUAGE_STORAGE_KEY),
+          AsyncStorage.getItem(SESSION_LANGUAGES_STORAGE_KEY),
           AsyncStorage.getItem(LANGUAGE_A_STORAGE_KEY),
           AsyncStorage.getItem(LANGUAGE_B_STORAGE_KEY),
+          AsyncStorage.getItem(DETECTION_LANGUAGES_STORAGE_KEY),
+          AsyncStorage.getItem(DETECTION_CONFIDENCE_STORAGE_KEY),
+          AsyncStorage.getItem(TRANSCRIPTION_BACKEND_STORAGE_KEY),
+          AsyncStorage.getItem(LOCAL_SERVER_URL_STORAGE_KEY),
+          AsyncStorage.getItem(TURN_DETECTION_STORAGE_KEY),
+          AsyncStorage.getItem(TRANSLATION_BACKEND_STORAGE_KEY),
+          AsyncStorage.getItem(TRANSLATION_CONTEXT_SIZE_STORAGE_KEY),
+          AsyncStorage.getItem(LIBRETRANSLATE_URL_STORAGE_KEY),
+          AsyncStorage.getItem(LIBRETRANSLATE_API_KEY_STORAGE_KEY),
+          AsyncStorage.getItem(DEEPL_URL_STORAGE_KEY),
+          AsyncStorage.getItem(DEEPL_API_KEY_STORAGE_KEY),
         ]);
 
         if (storedApiKey) {
           setApiKey(storedApiKey);
         }
+        if (storedAuthScheme) {
+          setAuthScheme(storedAuthScheme as OpenAIAuthScheme);
+        }
+        if (storedAuthHeaderName) {
+          setAuthHeaderName(storedAuthHeaderName);
+        }
+        if (storedRealtimeUrl) {
+          setRealtimeUrl(storedRealtimeUrl);
+        }
+        if (storedRealtimeTokenUrl) {
+          setRealtimeTokenUrl(storedRealtimeTokenUrl);
+        }
+        if (storedChatCompletionsUrl) {
+          setChatCompletionsUrl(storedChatCompletionsUrl);
+        }
+        if (storedTranscriptionsUrl) {
+          setTranscriptionsUrl(storedTranscriptionsUrl);
+        }
+        if (storedSpeechUrl) {
+          setSpeechUrl(storedSpeechUrl);
+        }
+        if (storedSpeechVoice) {
+          setSpeechVoice(storedSpeechVoice);
+        }
         if (storedModel) {
           setSelectedModel(storedModel);
         }
-        if (storedLanguageA) {
-          setLanguageA(storedLanguageA);
+        if (storedSpokenLanguage) {
+          setSpokenLanguage(storedSpokenLanguage);
         }
-        if (storedLanguageB) {
-          setLanguageB(storedLanguageB);
+        if (storedSessionLanguages) {
+          setSessionLanguages(JSON.parse(storedSessionLanguages));
+        } else if (storedLanguageA || storedLanguageB) {
+          setSessionLanguages(Array.from(new Set([storedLanguageA || 'de', storedLanguageB || 'en'])));
+        }
+        if (storedDetectionLanguages) {
+          setDetectionLanguages(JSON.parse(storedDetectionLanguages));
+        }
+        if (storedDetectionConfidence) {
+          setDetectionConfidence(Number(storedDetectionConfidence));
+        }
+        if (storedBackend) {
+          setTranscriptionBackend(storedBackend as TranscriptionBackend);
+        }
+        if (storedLocalServerUrl) {
+          setLocalServerUrl(storedLocalServerUrl);
+        }
+        if (storedTurnDetection) {
+          setTurnDetection(JSON.parse(storedTurnDetection));
+        }
+        if (storedTranslationBackend) {
+          setTranslationBackend(storedTranslationBackend as TranslationBackend);
+        }
+        if (storedTranslationContextSize) {
+          setTranslationContextSize(Number(storedTranslationContextSize));
+        }
+        if (storedLibreTranslateUrl) {
+          setLibreTranslateUrl(storedLibreTranslateUrl);
+        }
+        if (storedLibreTranslateApiKey) {
+          setLibreTranslateApiKey(storedLibreTranslateApiKey);
+        }
+        if (storedDeepLUrl) {
+          setDeepLUrl(storedDeepLUrl);
+        }
+        if (storedDeepLApiKey) {
+          setDeepLApiKey(storedDeepLApiKey);
         }
       } catch (error) {
         console.error('Failed to load persisted data:', error);
@@ -107,6 +513,28 @@ export default function App() {
     }
   }, [apiKey]);
 
+  // Save endpoint and auth settings when they change
+  useEffect(() => {
+    Promise.all([
+      AsyncStorage.setItem(AUTH_SCHEME_STORAGE_KEY, authScheme),
+      AsyncStorage.setItem(AUTH_HEADER_NAME_STORAGE_KEY, authHeaderName),
+      AsyncStorage.setItem(REALTIME_URL_STORAGE_KEY, realtimeUrl),
+      AsyncStorage.setItem(REALTIME_TOKEN_URL_STORAGE_KEY, realtimeTokenUrl),
+      AsyncStorage.setItem(CHAT_COMPLETIONS_URL_STORAGE_KEY, chatCompletionsUrl),
+      AsyncStorage.setItem(TRANSCRIPTIONS_URL_STORAGE_KEY, transcriptionsUrl),
+      AsyncStorage.setItem(SPEECH_URL_STORAGE_KEY, speechUrl),
+    ]).catch((error) =>
+      console.error('Failed to save connection settings:', error)
+    );
+  }, [authScheme, authHeaderName, realtimeUrl, realtimeTokenUrl, chatCompletionsUrl, transcriptionsUrl, speechUrl]);
+
+  // Save speech voice when it changes
+  useEffect(() => {
+    AsyncStorage.setItem(SPEECH_VOICE_STORAGE_KEY, speechVoice).catch((error) =>
+      console.error('Failed to save speech voice:', error)
+    );
+  }, [speechVoice]);
+
   // Save selected model when it changes
   useEffect(() => {
     AsyncStorage.setItem(SELECTED_MODEL_STORAGE_KEY, selectedModel).catch((error) =>
@@ -114,19 +542,137 @@ export default function App() {
     );
   }, [selectedModel]);
 
-  // Save Language A when it changes
+  // Save spoken language when it changes
+  useEffect(() => {
+    AsyncStorage.setItem(SPOKEN_LANGUAGE_STORAGE_KEY, spokenLanguage).catch((error) =>
+      console.error('Failed to save spoken language:', error)
+    );
+  }, [spokenLanguage]);
+
+  // Save session languages when they change
+  useEffect(() => {
+    AsyncStorage.setItem(SESSION_LANGUAGES_STORAGE_KEY, JSON.stringify(sessionLanguages)).catch((error) =>
+      console.error('Failed to save session languages:', error)
+    );
+  }, [sessionLanguages]);
+
+  // Save extra detection languages when they change
+  useEffect(() => {
+    AsyncStorage.setItem(DETECTION_LANGUAGES_STORAGE_KEY, JSON.stringify(detectionLanguages)).catch((error) =>
+      console.error('Failed to save detection languages:', error)
+    );
+  }, [detectionLanguages]);
+
+  // Save detection confidence when it changes
+  useEffect(() => {
+    AsyncStorage.setItem(DETECTION_CONFIDENCE_STORAGE_KEY, String(detectionConfidence)).catch((error) =>
+      console.error('Failed to save detection confidence:', error)
+    );
+  }, [detectionConfidence]);
+
+  // Save transcription backend when it changes
+  useEffect(() => {
+    AsyncStorage.setItem(TRANSCRIPTION_BACKEND_STORAGE_KEY, transcriptionBackend).catch((error) =>
+      console.error('Failed to save transcription backend:', error)
+    );
+  }, [transcriptionBackend]);
+
+  // Save local server URL when it changes
+  useEffect(() => {
+    AsyncStorage.setItem(LOCAL_SERVER_URL_STORAGE_KEY, localServerUrl).catch((error) =>
+      console.error('Failed to save local server URL:', error)
+    );
+  }, [localServerUrl]);
+
+  // Save turn detection settings when they change
   useEffect(() => {
-    AsyncStorage.setItem(LANGUAGE_A_STORAGE_KEY, languageA).catch((error) =>
-      console.error('Failed to save Language A:', error)
+    AsyncStorage.setItem(TURN_DETECTION_STORAGE_KEY, JSON.stringify(turnDetection)).catch((error) =>
+      console.error('Failed to save turn detection:', error)
     );
-  }, [languageA]);
+  }, [turnDetection]);
 
-  // Save Language B when it changes
+  // Save translation backend settings when they change
   useEffect(() => {
-    AsyncStorage.setItem(LANGUAGE_B_STORAGE_KEY, languageB).catch((error) =>
-      console.error('Failed to save Language B:', error)
+    Promise.all([
+      AsyncStorage.setItem(TRANSLATION_BACKEND_STORAGE_KEY, translationBackend),
+      AsyncStorage.setItem(TRANSLATION_CONTEXT_SIZE_STORAGE_KEY, String(translationContextSize)),
+      AsyncStorage.setItem(LIBRETRANSLATE_URL_STORAGE_KEY, libreTranslateUrl),
+      AsyncStorage.setItem(LIBRETRANSLATE_API_KEY_STORAGE_KEY, libreTranslateApiKey),
+      AsyncStorage.setItem(DEEPL_URL_STORAGE_KEY, deepLUrl),
+      AsyncStorage.setItem(DEEPL_API_KEY_STORAGE_KEY, deepLApiKey),
+    ]).catch((error) =>
+      console.error('Failed to save translation settings:', error)
     );
-  }, [languageB]);
+  }, [translationBackend, translationContextSize, libreTranslateUrl, libreTranslateApiKey, deepLUrl, deepLApiKey]);
+
+  // Load the session that was open when the app was last closed
+  useEffect(() => {
+    if (isSessionLibraryLoaded && activeSession && loadedSessionIdRef.current === null) {
+      loadedSessionIdRef.current = activeSession.id;
+      replaceTranscripts(activeSession.transcripts);
+    }
+    // Only runs once the library has been restored
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSessionLibraryLoaded]);
+
+  // Keep the open session in sync with incoming transcripts and translations
+  useEffect(() => {
+    if (loadedSessionIdRef.current) {
+      updateSession(loadedSessionIdRef.current, { transcripts: finalTranscripts });
+    }
+  }, [finalTranscripts, updateSession]);
+
+  // Speakers belong to the open session
+  useEffect(() => {
+    if (loadedSessionIdRef.current) {
+      updateSession(loadedSessionIdRef.current, { speakers });
+    }
+  }, [speakers, updateSession]);
+
+  // Record when the open session last stopped recording
+  useEffect(() => {
+    if (!isRecording && loadedSessionIdRef.current) {
+      updateSession(loadedSessionIdRef.current, { endedAt: new Date() });
+    }
+    // Only track transitions of the recording state
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording]);
+
+  const openSession = useCallback((sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    loadedSessionIdRef.current = session.id;
+    setActiveSessionId(session.id);
+    replaceTranscripts(session.transcripts);
+    // Restore the settings the session was recorded with
+    setSessionLanguages(session.languages);
+    setSpeakers(session.speakers);
+    setCurrentSpeakerId(null);
+    setSelectedModel(session.model);
+  }, [sessions, setActiveSessionId, replaceTranscripts]);
+
+  // Settings changed while a session is open are what it is recorded with from then on,
+  // so reopening it restores them
+  const changeSessionLanguages = (languages: string[]) => {
+    setSessionLanguages(languages);
+    if (loadedSessionIdRef.current) {
+      updateSession(loadedSessionIdRef.current, { languages });
+    }
+  };
+
+  const changeModel = (model: string) => {
+    setSelectedModel(model);
+    if (loadedSessionIdRef.current) {
+      updateSession(loadedSessionIdRef.current, { model });
+    }
+  };
+
+  const handleNewSession = () => {
+    loadedSessionIdRef.current = null;
+    setActiveSessionId(null);
+    replaceTranscripts([]);
+  };
 
   const requestMicPermission = useCallback(async () => {
     if (Platform.OS !== 'android') return true;
@@ -142,8 +688,22 @@ export default function App() {
   }, []);
 
   const handleStartRecording = async () => {
-    if (!apiKey) {
-      Alert.alert('API Key Required', 'Please enter your OpenAI API key.');
+    if (transcriptionBackend === 'openai-realtime' && !apiKey && !realtimeTokenUrl.trim()) {
+      Alert.alert('API Key Required', 'Please enter your OpenAI API key or a token broker URL.');
+      return;
+    }
+    // The header only carries the API key; broker secrets always go in the subprotocol
+    if (
+      transcriptionBackend === 'openai-realtime' &&
+      !realtimeTokenUrl.trim() &&
+      authScheme === 'custom-header' &&
+      !authHeaderName.trim()
+    ) {
+      Alert.alert('Auth Header Required', 'Please enter the name of the header that carries your API key.');
+      return;
+    }
+    if (transcriptionBackend === 'local-server' && !localServerUrl) {
+      Alert.alert('Server URL Required', 'Please enter the URL of your local transcription server.');
       return;
     }
     const hasPermission = await requestMicPermission();
@@ -151,13 +711,94 @@ export default function App() {
       Alert.alert('Permission Denied', 'Cannot access microphone.');
       return;
     }
+    if (!loadedSessionIdRef.current) {
+      const session = createSession({ languages: sessionLanguages, speakers, model: selectedModel });
+      loadedSessionIdRef.current = session.id;
+    }
     startRecording();
   };
 
+  const handleResumeSession = (sessionId: string) => {
+    openSession(sessionId);
+    setHistoryVisible(false);
+    setResumePending(true);
+  };
+
+  // Start once the session's model, languages and speakers are in place, not with the previous ones
+  useEffect(() => {
+    if (!isResumePending) return;
+    setResumePending(false);
+    handleStartRecording();
+    // Only runs when a resume was requested
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isResumePending]);
+
+  const handleOpenSession = (sessionId: string) => {
+    openSession(sessionId);
+    setHistoryVisible(false);
+  };
+
+  // Offer saved JSON exports for import while the history is open
+  useEffect(() => {
+    if (!isHistoryVisible) return;
+    listSavedExports('json')
+      .then(setSavedSessionExports)
+      .catch((error) => console.error('Failed to list saved exports:', error));
+  }, [isHistoryVisible]);
+
+  const handleImportSession = async (path: string) => {
+    try {
+      const session = importSession(parseSessionJson(await readExportFile(path)));
+      Alert.alert('Session Imported', `"${session.title}" was added to your sessions.`);
+    } catch (importError) {
+      console.error('Failed to import session:', importError);
+      Alert.alert('Import Error', importError instanceof Error ? importError.message : 'Unable to import the session.');
+    }
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    Alert.alert(
+      'Delete Session',
+      `Are you sure you want to delete "${session.title}" and its ${session.transcripts.length} transcripts?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (loadedSessionIdRef.current === sessionId) {
+              loadedSessionIdRef.current = null;
+              replaceTranscripts([]);
+            }
+            deleteSession(sessionId);
+            deleteRecordings(session.transcripts).catch((error) =>
+              console.error('Failed to delete session audio:', error)
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTurnDetectionModeChange = (mode: string) => {
+    if (mode === 'local_vad') {
+      setTurnDetection(DEFAULT_LOCAL_VAD);
+    } else if (mode === 'server_vad') {
+      setTurnDetection(DEFAULT_SERVER_VAD);
+    } else if (mode === 'semantic_vad') {
+      setTurnDetection(DEFAULT_SEMANTIC_VAD);
+    } else {
+      setTurnDetection(MANUAL_TURN_DETECTION);
+    }
+  };
+
   const handleTranslate = async (transcriptId: string, targetLanguageCode: string) => {
     if (translatingIds.has(transcriptId)) return;
 
-    const targetLanguage = LANGUAGES.find(lang => lang.value === targetLanguageCode);
+    const targetLanguage = findLanguage(targetLanguageCode);
     if (!targetLanguage) {
       Alert.alert('Error', 'Target language not found');
       return;
@@ -166,7 +807,7 @@ export default function App() {
     setTranslatingIds(prev => new Set(prev).add(transcriptId));
 
     try {
-      await translateTranscript(transcriptId, targetLanguage.label);
+      await translateTranscript(transcriptId, targetLanguage.iso6391, targetLanguage.name);
     } catch (error) {
       Alert.alert('Translation Error', error instanceof Error ? error.message : 'Unknown error');
     } finally {
@@ -178,6 +819,25 @@ export default function App() {
     }
   };
 
+  const handleRetranscribe = async (transcriptId: string, targetModel: string) => {
+    if (retranscribingIds.has(transcriptId)) return;
+    setRetranscribeMenuId(null);
+    setRetranscribingIds(prev => new Set(prev).add(transcriptId));
+
+    try {
+      await retranscribeTranscript(transcriptId, targetModel);
+    } catch (error) {
+      console.error('Failed to re-transcribe segment:', error);
+      Alert.alert('Re-transcription Error', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setRetranscribingIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(transcriptId);
+        return newSet;
+      });
+    }
+  };
+
   const handleDeleteTranscript = (transcriptId: string) => {
     Alert.alert(
       'Delete Transcript',
@@ -223,48 +883,229 @@ export default function App() {
       return;
     }
 
-    // Format transcripts for sharing
-    const formattedTranscripts = finalTranscripts
-      .map((transcript, index) => {
-        const time = transcript.timestamp.toLocaleString();
-        let text = `${index + 1}. [${time}] ${transcript.text}`;
-        if (transcript.originalText && transcript.originalText !== transcript.text) {
-          text += `\n   Original: ${transcript.originalText}`;
-        }
-        return text;
-      })
-      .reverse() // Show oldest first in share
-      .join('\n\n');
-
-    const shareText = `📝 Transcription Results (${finalTranscripts.length} segments)\n\n${formattedTranscripts}`;
+    const formattedTranscripts = formatTranscriptList(finalTranscripts, speakers);
+    const sessionTitle = activeSession?.title ?? 'Transcription Results';
+    const shareText = `📝 ${sessionTitle} (${finalTranscripts.length} segments)\n\n${formattedTranscripts}`;
 
     try {
       await Share.share({
         message: shareText,
-        title: 'Transcription Results',
+        title: sessionTitle,
       });
     } catch (shareError) {
       Alert.alert('Share Error', 'Unable to share transcripts.');
     }
   };
 
-  const renderTranscript = ({ item }: { item: any }) => {
+  // Bulk actions work on the selected rows, or on the whole session when none are selected
+  const bulkTargets = () =>
+    selectedIds.size > 0 ? finalTranscripts.filter((t) => selectedIds.has(t.id)) : finalTranscripts;
+
+  const toggleSelected = (transcriptId: string) => {
+    setSelectedIds((prev) => {
+      const newSet = new Set(prev);
+      if (!newSet.delete(transcriptId)) {
+        newSet.add(transcriptId);
+      }
+      return newSet;
+    });
+  };
+
+  const finishSelecting = () => {
+    bulkCancelledRef.current = true;
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkTranslate = async () => {
+    const targetLanguage = findLanguage(bulkLanguage);
+    if (!targetLanguage) {
+      Alert.alert('Error', 'Target language not found');
+      return;
+    }
+
+    // Oldest first so each translation is available as context for the next one
+    const targets = bulkTargets()
+      .slice()
+      .reverse()
+      .filter((t) => findLanguageByFrancCode(t.detectedLanguage ?? '')?.iso6391 !== targetLanguage.iso6391);
+    if (targets.length === 0) {
+      Alert.alert('Nothing to Translate', `These segments are already in ${targetLanguage.name}.`);
+      return;
+    }
+
+    bulkCancelledRef.current = false;
+    setBulkProgress({ done: 0, total: targets.length });
+    let failed = 0;
+    for (const [index, transcript] of targets.entries()) {
+      if (bulkCancelledRef.current) break;
+      setTranslatingIds(prev => new Set(prev).add(transcript.id));
+      try {
+        await translateTranscript(transcript.id, targetLanguage.iso6391, targetLanguage.name);
+      } catch (error) {
+        console.error('Failed to translate segment:', error);
+        failed += 1;
+      } finally {
+        setTranslatingIds(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(transcript.id);
+          return newSet;
+        });
+      }
+      setBulkProgress({ done: index + 1, total: targets.length });
+    }
+    setBulkProgress(null);
+
+    if (failed > 0) {
+      Alert.alert('Translation Error', `${failed} of ${targets.length} segments could not be translated.`);
+    }
+  };
+
+  const handleBulkCopy = () => {
+    Clipboard.setString(formatTranscriptList(bulkTargets(), speakers));
+    Alert.alert('Copied', `${bulkTargets().length} segments copied to the clipboard.`);
+  };
+
+  const handleBulkShare = async () => {
+    try {
+      await Share.share({ message: formatTranscriptList(bulkTargets(), speakers) });
+    } catch (shareError) {
+      Alert.alert('Share Error', 'Unable to share transcripts.');
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const targets = bulkTargets();
+    Alert.alert(
+      'Delete Transcripts',
+      `Are you sure you want to delete ${targets.length} transcripts?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            targets.forEach((t) => deleteTranscript(t.id));
+            finishSelecting();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExport = async (options: ExportOptions, destination: ExportDestination) => {
+    if (!activeSession) return;
+    // The live list can be a render ahead of the stored session
+    const { fileName, content } = buildExport({ ...activeSession, transcripts: finalTranscripts }, options);
+
+    try {
+      if (destination === 'save') {
+        const path = await saveExportFile(fileName, content);
+        Alert.alert('Export Saved', `Saved to ${path}`);
+      } else {
+        await shareExportFile(fileName, content);
+      }
+      setExportVisible(false);
+    } catch (exportError) {
+      console.error('Failed to export session:', exportError);
+      Alert.alert('Export Error', 'Unable to export the session.');
+    }
+  };
+
+  const handlePlaySegment = async (transcript: Transcript) => {
+    if (playingId === transcript.id) {
+      stopSegmentPlayback();
+      return;
+    }
+    try {
+      await playSegment(transcript);
+    } catch (playError) {
+      console.error('Failed to play segment:', playError);
+      Alert.alert(
+        'Playback Error',
+        playError instanceof Error ? playError.message : 'Unable to play this segment.'
+      );
+    }
+  };
+
+  // "Next speaker": Auto → each speaker in turn → Auto
+  const handleNextSpeaker = () => {
+    const index = speakers.findIndex((speaker) => speaker.id === currentSpeakerId);
+    setCurrentSpeakerId(speakers[index + 1]?.id ?? null);
+  };
+
+  const renderTranscript = ({ item }: { item: Transcript }) => {
     const isTranslating = translatingIds.has(item.id);
-    const isTranslated = item.text.includes('(') && item.text.includes(')');
-    
+    const speaker = findSpeaker(speakers, item.speaker);
+    const isRetranscribing = retranscribingIds.has(item.id);
+
     return (
-      <View style={styles.transcriptItem}>
+      <View
+        style={[
+          styles.transcriptItem,
+          speaker && { borderLeftWidth: 4, borderLeftColor: speaker.color, paddingLeft: 6 },
+          selectedIds.has(item.id) && styles.transcriptItemSelected,
+        ]}
+      >
         <View style={styles.transcriptHeader}>
           <View style={styles.transcriptMeta}>
+            {isSelecting && (
+              <TouchableOpacity style={styles.selectBox} onPress={() => toggleSelected(item.id)}>
+                <Text style={styles.playButtonText}>{selectedIds.has(item.id) ? '☑️' : '⬜'}</Text>
+              </TouchableOpacity>
+            )}
             <Text style={styles.transcriptTime}>
               {item.timestamp.toLocaleTimeString()}
             </Text>
+            {speakers.length > 0 && (
+              <TouchableOpacity
+                onPress={() => setSpeakerMenuId(speakerMenuId === item.id ? null : item.id)}
+              >
+                <Text style={[styles.speakerName, speaker && { color: speaker.color }]}>
+                  {speaker?.name ?? 'Speaker?'}
+                </Text>
+              </TouchableOpacity>
+            )}
             {item.detectedLanguageName && (
-              <Text style={styles.detectedLanguage}>
-                {item.detectedLanguageName}
-              </Text>
+              <TouchableOpacity
+                onPress={() => setLanguageMenuId(languageMenuId === item.id ? null : item.id)}
+              >
+                <Text style={styles.detectedLanguage}>
+                  {item.detectedLanguageName}
+                  {item.languageSource === 'previous' ? ' ?' : ''}
+                </Text>
+              </TouchableOpacity>
             )}
           </View>
+          {item.audio && (
+            <TouchableOpacity
+              style={styles.playButton}
+              onPress={() => handlePlaySegment(item)}
+            >
+              <Text style={styles.playButtonText}>{playingId === item.id ? '⏹️' : '▶️'}</Text>
+            </TouchableOpacity>
+          )}
+          {Object.keys(item.translations ?? {}).length > 0 && (
+            <TouchableOpacity
+              style={styles.playButton}
+              onPress={() =>
+                speakingId === item.id
+                  ? stopSpeech()
+                  : speak(item.id, Object.values(item.translations ?? {}).map((t) => t.text))
+              }
+            >
+              <Text style={styles.playButtonText}>{speakingId === item.id ? '🔇' : '🔊'}</Text>
+            </TouchableOpacity>
+          )}
+          {item.audio && (
+            <TouchableOpacity
+              style={styles.playButton}
+              onPress={() => setRetranscribeMenuId(retranscribeMenuId === item.id ? null : item.id)}
+              disabled={isRetranscribing}
+            >
+              <Text style={styles.playButtonText}>🔁</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity 
             style={styles.deleteButton}
             onPress={() => handleDeleteTranscript(item.id)}
@@ -275,62 +1116,131 @@ export default function App() {
         
         <View style={styles.transcriptContent}>
           <View style={styles.transcriptTextContainer}>
-            {isTranslating ? (
-              <Text style={[
-                styles.transcriptText,
-                styles.translatedText,
-              ]}>
+            <ColoredTranscript
+              text={item.text}
+              logprobs={item.logprobs}
+            />
+
+            {Object.entries(item.translations ?? {}).map(([code, translation]) => (
+              <View key={code} style={styles.translationRow}>
+                <Text style={styles.translationLabel}>{getLanguageLabel(code)}: </Text>
+                <Text
+                  style={[
+                    styles.transcriptText,
+                    styles.translatedText,
+                    isRightToLeft(code) && styles.rightToLeftText,
+                  ]}
+                >
+                  {translation.text}
+                </Text>
+              </View>
+            ))}
+
+            {isTranslating && (
+              <Text style={[styles.transcriptText, styles.translatedText]}>
                 Translating...
               </Text>
-            ) : (
-              <>
-                {/* Show translated text (if it exists) without logprobs */}
-                {item.originalText ? (
-                  <Text style={[styles.transcriptText, styles.translatedText]}>
-                    {item.text}
-                  </Text>
-                ) : (
-                  /* Show original text with logprobs */
-                  <ColoredTranscript
-                    text={item.text}
-                    logprobs={item.logprobs}
-                  />
-                )}
-                
-                {/* Show original text with logprobs when translation exists */}
-                {item.originalText && (
-                  <View style={styles.originalWithLogprobs}>
-                    <Text style={styles.originalLabel}>Original: </Text>
-                    <ColoredTranscript
-                      text={item.originalText}
-                      logprobs={item.logprobs}
-                    />
-                  </View>
+            )}
+
+            {item.alternatives?.map((alternative) => (
+              <View key={alternative.model} style={styles.translationRow}>
+                <Text style={styles.translationLabel}>
+                  {MODELS.find(m => m.value === alternative.model)?.label ?? alternative.model}:{' '}
+                </Text>
+                <ColoredTranscript
+                  text={alternative.text}
+                  logprobs={alternative.logprobs}
+                />
+                <TouchableOpacity
+                  style={styles.useAlternativeButton}
+                  onPress={() => promoteAlternative(item.id, alternative.model)}
+                >
+                  <Text style={styles.useAlternativeButtonText}>Use</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {isRetranscribing && (
+              <Text style={styles.translationLabel}>Re-transcribing...</Text>
+            )}
+
+            {speakerMenuId === item.id && (
+              <View style={styles.retranscribeMenu}>
+                <Text style={styles.translationLabel}>Speaker: </Text>
+                {speakers.map((option) => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.useAlternativeButton, { backgroundColor: option.color }]}
+                    onPress={() => {
+                      setSpeakerMenuId(null);
+                      setTranscriptSpeaker(item.id, option.id);
+                    }}
+                  >
+                    <Text style={styles.useAlternativeButtonText}>{option.name}</Text>
+                  </TouchableOpacity>
+                ))}
+                {item.speaker && (
+                  <TouchableOpacity
+                    style={styles.useAlternativeButton}
+                    onPress={() => {
+                      setSpeakerMenuId(null);
+                      setTranscriptSpeaker(item.id, undefined);
+                    }}
+                  >
+                    <Text style={styles.useAlternativeButtonText}>None</Text>
+                  </TouchableOpacity>
                 )}
-              </>
+              </View>
+            )}
+
+            {languageMenuId === item.id && (
+              <View style={styles.retranscribeMenu}>
+                <Text style={styles.translationLabel}>Spoken language: </Text>
+                {detectableLanguages.map((code) => (
+                  <TouchableOpacity
+                    key={code}
+                    style={styles.useAlternativeButton}
+                    onPress={() => {
+                      setLanguageMenuId(null);
+                      setTranscriptLanguage(item.id, code);
+                    }}
+                  >
+                    <Text style={styles.useAlternativeButtonText}>{getLanguageLabel(code)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {retranscribeMenuId === item.id && (
+              <View style={styles.retranscribeMenu}>
+                <Text style={styles.translationLabel}>Re-transcribe with: </Text>
+                {MODELS.map(({ label, value }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={styles.useAlternativeButton}
+                    onPress={() => handleRetranscribe(item.id, value)}
+                  >
+                    <Text style={styles.useAlternativeButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             )}
           </View>
           
           <View style={styles.translateButtons}>
-            <TouchableOpacity
-              style={[styles.translateButton, styles.translateButtonA]}
-              onPress={() => handleTranslate(item.id, languageA)}
-              disabled={isTranslating}
-            >
-              <Text style={styles.translateButtonText}>
-                {LANGUAGES.find(l => l.value === languageA)?.label.slice(0, 2).toUpperCase() || 'A'}
-              </Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity
-              style={[styles.translateButton, styles.translateButtonB]}
-              onPress={() => handleTranslate(item.id, languageB)}
-              disabled={isTranslating}
-            >
-              <Text style={styles.translateButtonText}>
-                {LANGUAGES.find(l => l.value === languageB)?.label.slice(0, 2).toUpperCase() || 'B'}
-              </Text>
-            </TouchableOpacity>
+            {sessionLanguages.map((code, index) => (
+              <TouchableOpacity
+                key={code}
+                style={[
+                  styles.translateButton,
+                  { backgroundColor: TRANSLATE_CHIP_COLORS[index % TRANSLATE_CHIP_COLORS.length] },
+                ]}
+                onPress={() => handleTranslate(item.id, code)}
+                disabled={isTranslating}
+              >
+                <Text style={styles.translateButtonText}>{code.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
           </View>
         </View>
       </View>
@@ -339,11 +1249,61 @@ export default function App() {
 
   const volumeWidth = Math.min(volume * 200, 200);
 
+  if (isConversationVisible) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ConversationScreen
+          transcripts={visibleTranscripts}
+          interimTranscript={interimTranscript}
+          languages={[sessionLanguages[0], sessionLanguages[1] ?? sessionLanguages[0]]}
+          isRecording={isRecording}
+          onStartRecording={handleStartRecording}
+          onStopRecording={stopRecording}
+          onClose={() => setConversationVisible(false)}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (isHistoryVisible && !isRecording) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <HistoryScreen
+            sessions={sessions}
+            activeSessionId={activeSession?.id ?? null}
+            onOpen={handleOpenSession}
+            onResume={handleResumeSession}
+            onRename={renameSession}
+            onDelete={handleDeleteSession}
+            importableFiles={savedSessionExports}
+            onImport={handleImportSession}
+            onClose={() => setHistoryVisible(false)}
+          />
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.content}>
         <Text style={styles.title}>BabelScribe</Text>
 
+        {!isRecording && (
+          <View style={styles.sessionBar}>
+            <Text style={styles.sessionTitle} numberOfLines={1}>
+              {activeSession?.title ?? 'New session'}
+            </Text>
+            <TouchableOpacity style={styles.sessionBarButton} onPress={handleNewSession}>
+              <Text style={styles.sessionBarButtonText}>＋ New</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.sessionBarButton} onPress={() => setHistoryVisible(true)}>
+              <Text style={styles.sessionBarButtonText}>📚 History</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {!isRecording && (
           <>
             <Text style={styles.label}>OpenAI API Key</Text>
@@ -355,25 +1315,360 @@ export default function App() {
               onChangeText={setApiKey}
             />
 
+            <Text style={styles.label}>Authentication</Text>
+            <LanguageSelector
+              languages={OPENAI_AUTH_SCHEMES}
+              selected={authScheme}
+              onChange={(value) => setAuthScheme(value as OpenAIAuthScheme)}
+            />
+
+            {authScheme === 'custom-header' && (
+              <>
+                <Text style={styles.label}>Auth Header Name</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="X-Proxy-Key"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  value={authHeaderName}
+                  onChangeText={setAuthHeaderName}
+                />
+              </>
+            )}
+
+            <Text style={styles.label}>Realtime WebSocket URL</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={DEFAULT_REALTIME_URL}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              value={realtimeUrl}
+              onChangeText={setRealtimeUrl}
+            />
+
+            <Text style={styles.label}>Realtime Token Broker URL (optional, replaces the API key for live transcription)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="https://example.com/realtime-token"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              value={realtimeTokenUrl}
+              onChangeText={setRealtimeTokenUrl}
+            />
+
+            <Text style={styles.label}>Chat Completions URL</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={DEFAULT_CHAT_COMPLETIONS_URL}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              value={chatCompletionsUrl}
+              onChangeText={setChatCompletionsUrl}
+            />
+
+            <Text style={styles.label}>Transcriptions URL (re-transcribing segments)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={DEFAULT_TRANSCRIPTIONS_URL}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              value={transcriptionsUrl}
+              onChangeText={setTranscriptionsUrl}
+            />
+
+            <Text style={styles.label}>Speech URL (reading translations aloud)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={DEFAULT_SPEECH_URL}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              value={speechUrl}
+              onChangeText={setSpeechUrl}
+            />
+
+            <Text style={styles.label}>Transcription Backend</Text>
+            <LanguageSelector
+              languages={TRANSCRIPTION_BACKENDS}
+              selected={transcriptionBackend}
+              onChange={(value) => setTranscriptionBackend(value as TranscriptionBackend)}
+            />
+
+            {transcriptionBackend === 'local-server' && (
+              <>
+                <Text style={styles.label}>Local Server URL</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="http://192.168.1.10:8000"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  value={localServerUrl}
+                  onChangeText={setLocalServerUrl}
+                />
+              </>
+            )}
+
+            <Text style={styles.label}>Turn Detection</Text>
+            <LanguageSelector
+              languages={TURN_DETECTION_MODES}
+              selected={turnDetection.type}
+              onChange={handleTurnDetectionModeChange}
+            />
+
+            {turnDetection.type === 'local_vad' && (
+              <>
+                <NumberSetting
+                  label="Speech level (0-1)"
+                  value={turnDetection.energyThreshold}
+                  min={0}
+                  max={1}
+                  onChange={(energyThreshold) => setTurnDetection({ ...turnDetection, energyThreshold })}
+                />
+                <NumberSetting
+                  label="Pause before commit (ms)"
+                  value={turnDetection.hangoverMs}
+                  min={100}
+                  onChange={(hangoverMs) => setTurnDetection({ ...turnDetection, hangoverMs })}
+                />
+              </>
+            )}
+
+            {turnDetection.type === 'server_vad' && (
+              <>
+                <NumberSetting
+                  label="Threshold (0-1)"
+                  value={turnDetection.threshold}
+                  min={0}
+                  max={1}
+                  onChange={(threshold) => setTurnDetection({ ...turnDetection, threshold })}
+                />
+                <NumberSetting
+                  label="Prefix padding (ms)"
+                  value={turnDetection.prefixPaddingMs}
+                  min={0}
+                  onChange={(prefixPaddingMs) => setTurnDetection({ ...turnDetection, prefixPaddingMs })}
+                />
+                <NumberSetting
+                  label="Silence duration (ms)"
+                  value={turnDetection.silenceDurationMs}
+                  min={0}
+                  onChange={(silenceDurationMs) => setTurnDetection({ ...turnDetection, silenceDurationMs })}
+                />
+              </>
+            )}
+
+            {turnDetection.type === 'semantic_vad' && (
+              <>
+                <Text style={styles.label}>Eagerness</Text>
+                <LanguageSelector
+                  languages={SEMANTIC_VAD_EAGERNESS}
+                  selected={turnDetection.eagerness}
+                  onChange={(eagerness) =>
+                    setTurnDetection({ ...turnDetection, eagerness: eagerness as SemanticVadEagerness })
+                  }
+                />
+              </>
+            )}
+
             <Text style={styles.label}>Model</Text>
             <LanguageSelector
               languages={MODELS}
               selected={selectedModel}
-              onChange={setSelectedModel}
+              onChange={changeModel}
             />
 
-            <Text style={styles.label}>Language A (Blue Button)</Text>
+            <Text style={styles.label}>Spoken Language</Text>
             <LanguageSelector
-              languages={LANGUAGES}
-              selected={languageA}
-              onChange={setLanguageA}
+              languages={SPOKEN_LANGUAGES}
+              selected={spokenLanguage}
+              onChange={setSpokenLanguage}
             />
 
-            <Text style={styles.label}>Language B (Orange Button)</Text>
+            <Text style={styles.label}>Vocabulary Profile</Text>
+            <ProfileEditor
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSelect={setActiveProfileId}
+              onCreate={createProfile}
+              onUpdate={updateProfile}
+              onDelete={deleteProfile}
+            />
+
+            <Text style={styles.label}>Translation Backend</Text>
             <LanguageSelector
-              languages={LANGUAGES}
-              selected={languageB}
-              onChange={setLanguageB}
+              languages={TRANSLATION_BACKENDS}
+              selected={translationBackend}
+              onChange={(value) => setTranslationBackend(value as TranslationBackend)}
+            />
+
+            {translationBackend === 'openai-chat' && (
+              <NumberSetting
+                label="Earlier segments sent as context"
+                value={translationContextSize}
+                min={0}
+                max={20}
+                onChange={(size) => setTranslationContextSize(Math.round(size))}
+              />
+            )}
+
+            {translationBackend === 'libretranslate' && (
+              <>
+                <Text style={styles.label}>LibreTranslate URL</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="http://localhost:5000"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  value={libreTranslateUrl}
+                  onChangeText={setLibreTranslateUrl}
+                />
+                <Text style={styles.label}>LibreTranslate API Key (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  secureTextEntry
+                  value={libreTranslateApiKey}
+                  onChangeText={setLibreTranslateApiKey}
+                />
+              </>
+            )}
+
+            {translationBackend === 'deepl' && (
+              <>
+                <Text style={styles.label}>DeepL API URL</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={DEEPL_FREE_API_URL}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  value={deepLUrl}
+                  onChangeText={setDeepLUrl}
+                />
+                <Text style={styles.label}>DeepL API Key</Text>
+                <TextInput
+                  style={styles.input}
+                  secureTextEntry
+                  value={deepLApiKey}
+                  onChangeText={setDeepLApiKey}
+                />
+              </>
+            )}
+
+            <Text style={styles.label}>Speak translations</Text>
+            <LanguageSelector
+              languages={SPEECH_VOICE_OPTIONS}
+              selected={speechVoice}
+              onChange={setSpeechVoice}
+            />
+
+            <Text style={styles.label}>Session languages (auto-translated into each other)</Text>
+            <View style={styles.retranscribeMenu}>
+              {sessionLanguages.map((code, index) => (
+                <TouchableOpacity
+                  key={code}
+                  style={[
+                    styles.useAlternativeButton,
+                    { backgroundColor: TRANSLATE_CHIP_COLORS[index % TRANSLATE_CHIP_COLORS.length] },
+                  ]}
+                  onPress={() => changeSessionLanguages(sessionLanguages.filter((c) => c !== code))}
+                  disabled={sessionLanguages.length <= 1}
+                >
+                  <Text style={styles.useAlternativeButtonText}>
+                    {getLanguageLabel(code)}{sessionLanguages.length > 1 ? ' ✕' : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <LanguageSelector
+              languages={[
+                { label: 'Add language…', value: '' },
+                ...LANGUAGES.filter(({ value }) => !sessionLanguages.includes(value)),
+              ]}
+              selected=""
+              onChange={(code) => {
+                if (!code) return;
+                changeSessionLanguages([...sessionLanguages, code]);
+                setDetectionLanguages(detectionLanguages.filter((c) => c !== code));
+              }}
+            />
+
+            <Text style={styles.label}>Speakers (tied to a language to be assigned automatically)</Text>
+            <SpeakerEditor
+              speakers={speakers}
+              languages={sessionLanguages}
+              onChange={setSpeakers}
+            />
+
+            <Text style={styles.label}>Other languages to detect</Text>
+            {detectionLanguages.length > 0 && (
+              <View style={styles.retranscribeMenu}>
+                {detectionLanguages.map((code) => (
+                  <TouchableOpacity
+                    key={code}
+                    style={styles.useAlternativeButton}
+                    onPress={() => setDetectionLanguages(detectionLanguages.filter((c) => c !== code))}
+                  >
+                    <Text style={styles.useAlternativeButtonText}>{getLanguageLabel(code)} ✕</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <LanguageSelector
+              languages={[
+                { label: 'Add language…', value: '' },
+                ...LANGUAGES.filter(({ value }) => !detectableLanguages.includes(value)),
+              ]}
+              selected=""
+              onChange={(code) => code && setDetectionLanguages([...detectionLanguages, code])}
+            />
+            <NumberSetting
+              label="Detection confidence (0-1)"
+              value={detectionConfidence}
+              min={0}
+              max={1}
+              onChange={setDetectionConfidence}
+            />
+
+            <Text style={styles.label}>Prices for cost estimates (USD)</Text>
+            {Object.entries(prices).map(([priceModel, price]) => (
+              <View key={priceModel}>
+                {price.audioPerMinute !== undefined && (
+                  <NumberSetting
+                    label={`${priceModel} per minute of audio`}
+                    value={price.audioPerMinute}
+                    min={0}
+                    onChange={(audioPerMinute) => updatePrice(priceModel, { audioPerMinute })}
+                  />
+                )}
+                {price.promptPerMillion !== undefined && (
+                  <NumberSetting
+                    label={`${priceModel} per 1M input tokens`}
+                    value={price.promptPerMillion}
+                    min={0}
+                    onChange={(promptPerMillion) => updatePrice(priceModel, { promptPerMillion })}
+                  />
+                )}
+                {price.completionPerMillion !== undefined && (
+                  <NumberSetting
+                    label={`${priceModel} per 1M output tokens`}
+                    value={price.completionPerMillion}
+                    min={0}
+                    onChange={(completionPerMillion) => updatePrice(priceModel, { completionPerMillion })}
+                  />
+                )}
+              </View>
+            ))}
+            <NumberSetting
+              label="Monthly budget in USD (0 for none)"
+              value={monthlyBudget}
+              min={0}
+              onChange={setMonthlyBudget}
             />
           </>
         )}
@@ -386,7 +1681,28 @@ export default function App() {
 
         {/* Recording controls and status */}
         <View style={styles.recordingSection}>
-          {isRecording && (
+          {connectionState === 'connecting' && (
+            <Text style={styles.connectionStatus}>Connecting...</Text>
+          )}
+          {connectionState === 'reconnecting' && (
+            <Text style={[styles.connectionStatus, styles.connectionStatusWarning]}>
+              Connection lost - reconnecting, audio is being buffered...
+            </Text>
+          )}
+          {connectionState === 'failed' && (
+            <Text style={[styles.connectionStatus, styles.connectionStatusError]}>
+              Connection failed. Check your network and start recording again.
+            </Text>
+          )}
+          {isRecording && segmentationMode !== 'timer' && (
+            <View style={[styles.countdownContainer, isSpeaking && styles.speakingContainer]}>
+              <Text style={styles.countdownLabel}>
+                {isSpeaking ? '🎙️ Speech detected...' : 'Listening for speech...'}
+              </Text>
+            </View>
+          )}
+
+          {isRecording && segmentationMode === 'timer' && (
             <TouchableOpacity 
               style={styles.countdownContainer}
               onPress={manualCommit}
@@ -400,11 +1716,28 @@ export default function App() {
             </TouchableOpacity>
           )}
           
+          <Text style={[styles.connectionStatus, isOverBudget && styles.connectionStatusError]}>
+            Est. cost: {formatCost(estimateCost(activeSession?.usage, prices))} this session ·{' '}
+            {formatCost(currentMonthCost)} this month
+            {monthlyBudget > 0 ? ` of ${formatCost(monthlyBudget)}` : ''}
+            {isOverBudget ? ' - auto-translation paused' : ''}
+          </Text>
+
           <Button
             title={isRecording ? 'Stop Recording' : 'Start Recording'}
             onPress={isRecording ? stopRecording : handleStartRecording}
             color={isRecording ? 'red' : undefined}
           />
+          {isRecording && speakers.length > 0 && (
+            <Button
+              title={`Next speaker (now: ${findSpeaker(speakers, currentSpeakerId ?? undefined)?.name ?? 'auto'})`}
+              onPress={handleNextSpeaker}
+            />
+          )}
+          <Button
+            title="Face to Face"
+            onPress={() => setConversationVisible(true)}
+          />
         </View>
 
         <Text style={styles.label}>Transcript</Text>
@@ -420,7 +1753,25 @@ export default function App() {
         </View>
         
         {/* Transcript action buttons */}
-        {finalTranscripts.length > 0 && (
+        {finalTranscripts.length > 0 && isSelecting && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            totalCount={finalTranscripts.length}
+            targetLanguage={bulkLanguage}
+            onTargetLanguageChange={setBulkLanguage}
+            progress={bulkProgress}
+            onSelectAll={() => setSelectedIds(new Set(finalTranscripts.map((t) => t.id)))}
+            onSelectNone={() => setSelectedIds(new Set())}
+            onTranslate={handleBulkTranslate}
+            onCancelTranslate={() => { bulkCancelledRef.current = true; }}
+            onCopy={handleBulkCopy}
+            onShare={handleBulkShare}
+            onDelete={handleBulkDelete}
+            onDone={finishSelecting}
+          />
+        )}
+
+        {finalTranscripts.length > 0 && !isSelecting && (
           <View style={styles.transcriptActions}>
             <TouchableOpacity 
               style={styles.actionButton}
@@ -428,6 +1779,20 @@ export default function App() {
             >
               <Text style={styles.actionButtonText}>📤 Share</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setSelecting(true)}
+            >
+              <Text style={styles.actionButtonText}>☑️ Select</Text>
+            </TouchableOpacity>
+            {activeSession && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setExportVisible(true)}
+              >
+                <Text style={styles.actionButtonText}>💾 Export</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity 
               style={[styles.actionButton, styles.dangerButton]}
               onPress={handleClearAllTranscripts}
@@ -437,12 +1802,21 @@ export default function App() {
           </View>
         )}
         
+        {isExportVisible && activeSession && (
+          <ExportDialog
+            visible
+            session={{ ...activeSession, transcripts: finalTranscripts }}
+            onExport={handleExport}
+            onClose={() => setExportVisible(false)}
+          />
+        )}
+
         <View style={styles.transcriptBox}>
           {!!interimTranscript && (
             <Text style={styles.interimText}>{interimTranscript}</Text>
           )}
           <FlatList
-            data={finalTranscripts}
+            data={visibleTranscripts}
             renderItem={renderTranscript}
             keyExtractor={(item) => item.id}
             style={styles.transcriptsList}
@@ -470,6 +1844,28 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: 'black',
   },
+  sessionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sessionTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  sessionBarButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+  },
+  sessionBarButtonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
   label: {
     marginTop: 12,
     marginBottom: 4,
@@ -517,8 +1913,17 @@ const styles = StyleSheet.create({
     borderBottomColor: '#eee',
     backgroundColor: 'white',
   },
-  transcriptItemTranslating: {
-    backgroundColor: '#f0f0f0',
+  speakerName: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#999',
+    marginLeft: 8,
+  },
+  transcriptItemSelected: {
+    backgroundColor: '#e3f2fd',
+  },
+  selectBox: {
+    marginRight: 6,
   },
   transcriptHeader: {
     flexDirection: 'row',
@@ -551,9 +1956,33 @@ const styles = StyleSheet.create({
   translatedText: {
     color: '#4caf50',
   },
-  originalText: {
-    color: '#999',
-    fontStyle: 'italic',
+  rightToLeftText: {
+    writingDirection: 'rtl',
+  },
+  playButton: {
+    padding: 4,
+  },
+  playButtonText: {
+    fontSize: 16,
+  },
+  retranscribeMenu: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  useAlternativeButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginLeft: 6,
+    borderRadius: 4,
+    backgroundColor: '#2196f3',
+  },
+  useAlternativeButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
   },
   deleteButton: {
     padding: 4,
@@ -581,6 +2010,18 @@ const styles = StyleSheet.create({
   recordingSection: {
     marginVertical: 16,
   },
+  connectionStatus: {
+    textAlign: 'center',
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  connectionStatusWarning: {
+    color: '#ff9800',
+  },
+  connectionStatusError: {
+    color: '#f44336',
+  },
   countdownContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -592,6 +2033,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#ffeeba',
   },
+  speakingContainer: {
+    backgroundColor: '#e8f5e8',
+    borderColor: '#4caf50',
+  },
   countdownLabel: {
     fontSize: 16,
     color: '#856404',
@@ -631,6 +2076,9 @@ const styles = StyleSheet.create({
   },
   translateButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    maxWidth: 140,
     gap: 8,
   },
   translateButton: {
@@ -640,12 +2088,6 @@ const styles = StyleSheet.create({
     minWidth: 40,
     alignItems: 'center',
   },
-  translateButtonA: {
-    backgroundColor: '#2196f3',
-  },
-  translateButtonB: {
-    backgroundColor: '#ff9800',
-  },
   translateButtonText: {
     color: '#fff',
     fontSize: 12,
@@ -670,13 +2112,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
-  originalWithLogprobs: {
+  translationRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
     alignItems: 'center',
     marginTop: 4,
   },
-  originalLabel: {
+  translationLabel: {
     color: '#999',
     fontStyle: 'italic',
     fontSize: 14,
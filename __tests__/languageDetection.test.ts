@@ -0,0 +1,31 @@
+import { detectLanguage } from '../src/utils/languageDetection';
+
+const options = { candidates: ['de', 'en'], minConfidence: 0.15 };
+
+test('picks the configured language franc is confident about', () => {
+  expect(detectLanguage('Wie geht es dir heute?', options)).toMatchObject({
+    francCode: 'deu',
+    uncertain: false,
+  });
+  expect(detectLanguage('How are you doing today?', options)).toMatchObject({
+    francCode: 'eng',
+    uncertain: false,
+  });
+});
+
+test('falls back to the previous language when unsure', () => {
+  expect(detectLanguage('ok ja', { ...options, fallback: 'deu' })).toEqual({
+    francCode: 'deu',
+    confidence: 0,
+    uncertain: true,
+  });
+  expect(detectLanguage('Hallo Welt', options)).toMatchObject({ francCode: 'und', uncertain: true });
+});
+
+test('never reports a language outside the candidates', () => {
+  const { francCode } = detectLanguage('Buenos días, ¿cómo estás hoy, amigo mío?', {
+    candidates: ['de', 'en', 'fr'],
+    minConfidence: 0,
+  });
+  expect(['deu', 'eng', 'fra']).toContain(francCode);
+});
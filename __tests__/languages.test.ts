@@ -0,0 +1,28 @@
+import { franc } from 'franc';
+import {
+  LANGUAGE_REGISTRY,
+  findLanguageByFrancCode,
+  getLanguageLabel,
+  getLanguageNameFromFrancCode,
+} from '../src/constants/languages';
+
+test('registry codes are unique', () => {
+  const iso6391 = LANGUAGE_REGISTRY.map((language) => language.iso6391);
+  const iso6393 = LANGUAGE_REGISTRY.map((language) => language.iso6393);
+  expect(new Set(iso6391).size).toBe(iso6391.length);
+  expect(new Set(iso6393).size).toBe(iso6393.length);
+});
+
+test('maps franc output for languages the old tables missed', () => {
+  const swahili = franc('Habari za asubuhi, rafiki yangu. Tunaenda sokoni kununua matunda na mboga leo.');
+  expect(findLanguageByFrancCode(swahili)?.iso6391).toBe('sw');
+  expect(findLanguageByFrancCode('pes')?.iso6391).toBe('fa');
+  expect(findLanguageByFrancCode('nno')?.iso6391).toBe('no');
+});
+
+test('resolves names from either code', () => {
+  expect(getLanguageLabel('ur')).toBe('Urdu');
+  expect(getLanguageLabel('xx')).toBe('XX');
+  expect(getLanguageNameFromFrancCode('arb')).toBe('Arabic');
+  expect(getLanguageNameFromFrancCode('und')).toBe('Unknown');
+});
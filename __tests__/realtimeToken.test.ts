@@ -0,0 +1,75 @@
+import {
+  TOKEN_REFRESH_MARGIN_MS,
+  createRealtimeTokenSource,
+  parseRealtimeToken,
+} from '../src/providers/transcription/realtimeToken';
+
+const secretResponse = (value: string, expiresAtSeconds: number) => ({
+  ok: true,
+  json: async () => ({ client_secret: { value, expires_at: expiresAtSeconds } }),
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+test('parses both client secret response shapes', () => {
+  expect(parseRealtimeToken({ client_secret: { value: 'ek_1', expires_at: 100 } })).toEqual({
+    value: 'ek_1',
+    expiresAt: 100000,
+  });
+  expect(parseRealtimeToken({ value: 'ek_2', expires_at: 200 })).toEqual({
+    value: 'ek_2',
+    expiresAt: 200000,
+  });
+  expect(() => parseRealtimeToken({ error: 'nope' })).toThrow('no client secret');
+});
+
+test('reuses a secret until it is about to expire', async () => {
+  let now = 1_000_000;
+  const fetchMock = jest
+    .fn()
+    .mockResolvedValueOnce(secretResponse('ek_1', 1060))
+    .mockResolvedValueOnce(secretResponse('ek_2', 1120));
+  global.fetch = fetchMock as any;
+  const source = createRealtimeTokenSource({ brokerUrl: 'http://broker/token', now: () => now });
+
+  expect((await source.getToken()).value).toBe('ek_1');
+  now += 30000;
+  expect((await source.getToken()).value).toBe('ek_1');
+  now = 1_060_000 - TOKEN_REFRESH_MARGIN_MS;
+  expect((await source.getToken()).value).toBe('ek_2');
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+  expect(fetchMock).toHaveBeenCalledWith('http://broker/token', { method: 'POST' });
+});
+
+test('refreshes ahead of expiry while started', async () => {
+  jest.useFakeTimers();
+  const fetchMock = jest
+    .fn()
+    .mockResolvedValueOnce(secretResponse('ek_1', Date.now() / 1000 + 60))
+    .mockResolvedValueOnce(secretResponse('ek_2', Date.now() / 1000 + 120));
+  global.fetch = fetchMock as any;
+  const source = createRealtimeTokenSource({ brokerUrl: 'http://broker/token' });
+
+  source.start();
+  await source.getToken();
+  await jest.advanceTimersByTimeAsync(60000 - TOKEN_REFRESH_MARGIN_MS);
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+
+  source.stop();
+  await jest.advanceTimersByTimeAsync(120000);
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('broker errors are reported', async () => {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: false,
+    status: 401,
+    text: async () => 'unauthorized',
+  }) as any;
+  const source = createRealtimeTokenSource({ brokerUrl: 'http://broker/token' });
+
+  await expect(source.getToken()).rejects.toThrow('Token broker error: 401 unauthorized');
+});
@@ -0,0 +1,20 @@
+import { createEventStreamParser } from '../src/providers/serverSentEvents';
+
+test('parses events split across arbitrary chunks', () => {
+  const events: string[] = [];
+  const parser = createEventStreamParser((data) => events.push(data));
+
+  parser.push('data: {"a"');
+  parser.push(':1}\r\n\r\n: keep-alive\n\ndata: [DO');
+  parser.push('NE]\n\n');
+  expect(events).toEqual(['{"a":1}', '[DONE]']);
+});
+
+test('joins multi-line data and flushes the last event at the end', () => {
+  const events: string[] = [];
+  const parser = createEventStreamParser((data) => events.push(data));
+
+  parser.push('event: message\ndata: first\ndata:second\n\ndata: last');
+  parser.end();
+  expect(events).toEqual(['first\nsecond', 'last']);
+});
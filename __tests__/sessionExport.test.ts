@@ -0,0 +1,80 @@
+import {
+  buildExport,
+  formatSessionCsv,
+  formatSessionJson,
+  formatSessionMarkdown,
+  parseSessionJson,
+} from '../src/export';
+import { Session } from '../src/storage/sessionStorage';
+
+const session: Session = {
+  id: 'session-1',
+  title: 'Weekly sync',
+  startedAt: new Date('2024-05-01T10:00:00.000Z'),
+  endedAt: new Date('2024-05-01T11:00:00.000Z'),
+  languages: ['de', 'en'],
+  speakers: [{ id: 'anna', name: 'Anna', color: '#1e88e5', language: 'de' }],
+  model: 'whisper-1',
+  transcripts: [
+    {
+      id: '2',
+      timestamp: new Date('2024-05-01T10:30:00.000Z'),
+      text: 'Yes, "tomorrow", fine',
+      detectedLanguage: 'eng',
+      detectedLanguageName: 'English',
+      startMs: 5000,
+      endMs: 7500,
+    },
+    {
+      id: '1',
+      timestamp: new Date('2024-05-01T10:15:00.000Z'),
+      text: 'Hallo Welt',
+      speaker: 'anna',
+      detectedLanguage: 'deu',
+      detectedLanguageName: 'German',
+      logprobs: [{ token: 'Hallo', logprob: 0, bytes: null }],
+      translations: {
+        en: { text: 'Hello world', provider: 'deepl', createdAt: new Date('2024-05-01T10:15:02.000Z') },
+      },
+      startMs: 0,
+      endMs: 4100,
+    },
+  ],
+};
+
+test('JSON export restores the session losslessly', () => {
+  expect(parseSessionJson(formatSessionJson(session))).toEqual(session);
+});
+
+test('rejects JSON that is not a session export', () => {
+  expect(() => parseSessionJson('{"sessions": []}')).toThrow('Not a BabelScribe session export.');
+});
+
+test('Markdown groups segments under speaker or language headings, oldest first', () => {
+  const markdown = formatSessionMarkdown(session, ['translations', 'confidence']);
+  expect(markdown).toContain('# Weekly sync');
+  expect(markdown.indexOf('## Anna')).toBeLessThan(markdown.indexOf('## English'));
+  expect(markdown).not.toContain('## German');
+  expect(markdown).toContain('**100%** Hallo Welt\n> English: Hello world');
+});
+
+test('CSV quotes cells and adds a column per translation language', () => {
+  const csv = formatSessionCsv(session, ['offsets', 'speaker', 'translations']);
+  expect(csv.split('\r\n')).toEqual([
+    'start_seconds,end_seconds,speaker,text,translation_en',
+    '0.000,4.100,Anna,Hallo Welt,Hello world',
+    '5.000,7.500,,"Yes, ""tomorrow"", fine",',
+    '',
+  ]);
+});
+
+test('date range limits the exported segments', () => {
+  const { fileName, content } = buildExport(session, {
+    format: 'csv',
+    from: new Date('2024-05-01T10:20:00.000Z'),
+    fields: [],
+    subtitles: { textMode: 'source' },
+  });
+  expect(fileName).toBe('Weekly-sync.csv');
+  expect(content).toBe('text\r\n"Yes, ""tomorrow"", fine"\r\n');
+});
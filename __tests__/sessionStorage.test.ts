@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Session,
+  serializeSessions,
+  deserializeSessions,
+  saveSessions,
+  loadSessionLibrary,
+} from '../src/storage/sessionStorage';
+import { serializeTranscripts, deserializeTranscripts } from '../src/storage/transcriptStorage';
+import { Transcript } from '../src/hooks/useRealtimeTranscription';
+
+const transcript: Transcript = {
+  id: '1',
+  timestamp: new Date('2024-05-01T10:15:30.000Z'),
+  text: 'Hallo Welt',
+  speaker: 'anna',
+  translations: {
+    en: {
+      text: 'Hello world',
+      provider: 'openai-chat',
+      createdAt: new Date('2024-05-01T10:15:32.000Z'),
+    },
+  },
+  detectedLanguage: 'deu',
+  detectedLanguageName: 'German',
+  logprobs: [{ token: 'Hallo', logprob: -0.1, bytes: null }],
+  alternatives: [
+    {
+      model: 'whisper-1',
+      text: 'Hallo, Welt',
+      createdAt: new Date('2024-05-01T10:20:00.000Z'),
+    },
+  ],
+};
+
+const session: Session = {
+  id: 'session-1',
+  title: 'Weekly sync',
+  startedAt: new Date('2024-05-01T10:00:00.000Z'),
+  endedAt: new Date('2024-05-01T11:00:00.000Z'),
+  languages: ['de', 'en'],
+  speakers: [{ id: 'anna', name: 'Anna', color: '#1e88e5', language: 'de' }],
+  model: 'whisper-1',
+  transcripts: [transcript],
+};
+
+beforeEach(() => AsyncStorage.clear());
+
+test('round-trips sessions including Date fields', () => {
+  const restored = deserializeSessions(serializeSessions([session]));
+  expect(restored).toEqual([session]);
+  expect(restored[0].transcripts[0].timestamp).toBeInstanceOf(Date);
+});
+
+test('persists sessions to AsyncStorage', async () => {
+  await saveSessions([session]);
+  await expect(loadSessionLibrary()).resolves.toEqual({
+    sessions: [session],
+    activeSessionId: null,
+  });
+});
+
+test('only rewrites sessions that changed and drops removed ones', async () => {
+  const other: Session = { ...session, id: 'session-2', title: 'Standup' };
+  const saved = [session, other];
+  await saveSessions(saved);
+
+  const renamed = { ...session, title: 'Renamed' };
+  (AsyncStorage.multiSet as jest.Mock).mockClear();
+  await saveSessions([renamed], saved);
+
+  expect(AsyncStorage.multiSet).toHaveBeenCalledWith([
+    ['session:session-1', expect.stringContaining('Renamed')],
+  ]);
+  await expect(AsyncStorage.getItem('session:session-2')).resolves.toBeNull();
+  await expect(loadSessionLibrary()).resolves.toEqual({ sessions: [renamed], activeSessionId: null });
+});
+
+test('moves a library saved under a single key to one key per session', async () => {
+  await AsyncStorage.setItem('sessions', serializeSessions([session]));
+  await expect(loadSessionLibrary()).resolves.toEqual({ sessions: [session], activeSessionId: null });
+  await expect(AsyncStorage.getItem('sessions')).resolves.toBeNull();
+  await expect(AsyncStorage.getItem('session:session-1')).resolves.not.toBeNull();
+});
+
+test('migrates transcripts saved before sessions existed', async () => {
+  await AsyncStorage.setItem('transcripts', serializeTranscripts([transcript]));
+  const library = await loadSessionLibrary();
+  expect(library.sessions).toHaveLength(1);
+  expect(library.sessions[0].transcripts).toEqual([transcript]);
+  expect(library.activeSessionId).toBe(library.sessions[0].id);
+  await expect(AsyncStorage.getItem('transcripts')).resolves.toBeNull();
+});
+
+test('moves legacy overwritten translations into the translations map', () => {
+  const legacy = JSON.stringify([
+    {
+      id: '2',
+      timestamp: '2024-05-01T10:20:00.000Z',
+      text: 'Good morning (English)',
+      originalText: 'Guten Morgen',
+      detectedLanguage: 'deu',
+      detectedLanguageName: 'German',
+    },
+  ]);
+  const [restored] = deserializeTranscripts(legacy);
+  expect(restored.text).toBe('Guten Morgen');
+  expect(restored).not.toHaveProperty('originalText');
+  expect(restored.translations).toEqual({
+    en: {
+      text: 'Good morning',
+      provider: 'openai-chat',
+      createdAt: new Date('2024-05-01T10:20:00.000Z'),
+    },
+  });
+});
+
+test('turns the Language A/B pair of older sessions into a language list', () => {
+  const { languages, ...rest } = JSON.parse(serializeSessions([session]))[0];
+  const legacy = JSON.stringify([{ ...rest, languageA: languages[0], languageB: languages[1] }]);
+  expect(deserializeSessions(legacy)).toEqual([session]);
+});
@@ -0,0 +1,49 @@
+import { formatSrt, formatWebVtt, formatTimestamp } from '../src/export/subtitles';
+import { Transcript } from '../src/hooks/useRealtimeTranscription';
+
+const transcripts: Transcript[] = [
+  {
+    id: '2',
+    timestamp: new Date('2024-05-01T10:00:12.000Z'),
+    text: 'Wie geht es dir?',
+    startMs: 4200,
+    endMs: 3723456,
+  },
+  {
+    id: '1',
+    timestamp: new Date('2024-05-01T10:00:05.000Z'),
+    text: 'Hallo Welt',
+    translations: {
+      en: { text: 'Hello world', provider: 'openai-chat', createdAt: new Date() },
+    },
+    startMs: 0,
+    endMs: 4100,
+  },
+  {
+    id: '0',
+    timestamp: new Date('2024-05-01T09:59:00.000Z'),
+    text: 'Recorded before timings existed',
+  },
+];
+
+test('formats timestamps for both formats', () => {
+  expect(formatTimestamp(3723456, 'srt')).toBe('01:02:03,456');
+  expect(formatTimestamp(3723456, 'vtt')).toBe('01:02:03.456');
+});
+
+test('writes numbered SRT cues in playback order', () => {
+  expect(formatSrt(transcripts, { textMode: 'source' })).toBe(
+    '1\n00:00:00,000 --> 00:00:04,100\nHallo Welt\n\n' +
+      '2\n00:00:04,200 --> 01:02:03,456\nWie geht es dir?\n'
+  );
+});
+
+test('writes bilingual WebVTT cues and skips missing translations', () => {
+  expect(formatWebVtt(transcripts, { textMode: 'bilingual', translationLanguage: 'en' })).toBe(
+    'WEBVTT\n\n00:00:00.000 --> 00:00:04.100\nHallo Welt\nHello world\n\n' +
+      '00:00:04.200 --> 01:02:03.456\nWie geht es dir?\n'
+  );
+  expect(formatWebVtt(transcripts, { textMode: 'translation', translationLanguage: 'en' })).toBe(
+    'WEBVTT\n\n00:00:00.000 --> 00:00:04.100\nHello world\n'
+  );
+});
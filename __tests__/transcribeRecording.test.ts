@@ -0,0 +1,57 @@
+import { Buffer } from 'buffer';
+import { transcribeRecording } from '../src/providers/transcription';
+
+const mockFetch = (body: object) => {
+  const fetchMock = jest.fn(() =>
+    Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    }),
+  );
+  global.fetch = fetchMock as any;
+  return fetchMock;
+};
+
+const wav = Buffer.from('RIFF');
+
+test('OpenAI re-transcription asks gpt-4o models for logprobs', async () => {
+  const fetchMock = mockFetch({
+    text: ' Hallo Welt',
+    logprobs: [{ token: 'Hallo', logprob: -0.2, bytes: [72] }],
+  });
+
+  await expect(
+    transcribeRecording(
+      { backend: 'openai-realtime', apiKey: 'sk-test' },
+      wav,
+      { model: 'gpt-4o-transcribe', language: 'de' }
+    )
+  ).resolves.toEqual({
+    transcript: ' Hallo Welt',
+    logprobs: [{ token: 'Hallo', logprob: -0.2, bytes: [72] }],
+  });
+
+  const [url, init] = fetchMock.mock.calls[0] as any[];
+  expect(url).toBe('https://api.openai.com/v1/audio/transcriptions');
+  expect(init.headers).toEqual({ Authorization: 'Bearer sk-test' });
+  expect(init.body.get('model')).toBe('gpt-4o-transcribe');
+  expect(init.body.getAll('include[]')).toEqual(['logprobs']);
+});
+
+test('local server re-transcription posts to its own endpoint without logprobs', async () => {
+  const fetchMock = mockFetch({ text: 'Hello' });
+
+  await expect(
+    transcribeRecording(
+      { backend: 'local-server', apiKey: '', localServerUrl: 'http://10.0.0.2:8000/' },
+      wav,
+      { model: 'whisper-1' }
+    )
+  ).resolves.toEqual({ transcript: 'Hello', logprobs: undefined });
+
+  const [url, init] = fetchMock.mock.calls[0] as any[];
+  expect(url).toBe('http://10.0.0.2:8000/v1/audio/transcriptions');
+  expect(init.body.getAll('include[]')).toEqual([]);
+});
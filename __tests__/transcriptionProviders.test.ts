@@ -0,0 +1,157 @@
+import { createTranscriptionProvider } from '../src/providers/transcription';
+
+const config = { model: 'whisper-1' };
+
+const mockEvents = () => ({
+  onOpen: jest.fn(),
+  onClose: jest.fn(),
+  onError: jest.fn(),
+  onDelta: jest.fn(),
+  onCompleted: jest.fn(),
+  onFailed: jest.fn(),
+  onSpeechStarted: jest.fn(),
+  onSpeechStopped: jest.fn(),
+});
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+test('local server transcribes one commit at a time and reports each under its id', async () => {
+  const responses: Array<(response: any) => void> = [];
+  global.fetch = jest.fn(() => new Promise((resolve) => responses.push(resolve))) as any;
+  const provider = createTranscriptionProvider(
+    { backend: 'local-server', apiKey: '', localServerUrl: 'http://10.0.0.2:8000' },
+    config
+  );
+  const events = mockEvents();
+  provider.connect(events);
+
+  provider.appendAudio('AAAA');
+  const first = provider.commit();
+  provider.appendAudio('AAAA');
+  const second = provider.commit();
+  expect(first).not.toBe(second);
+
+  await flushPromises();
+  expect(responses).toHaveLength(1); // The second waits for the first
+  responses[0]({ ok: false, status: 500, text: () => Promise.resolve('busy') });
+  await flushPromises();
+  expect(events.onFailed).toHaveBeenCalledWith(first, expect.any(Error));
+
+  responses[1]({ ok: true, status: 200, json: () => Promise.resolve({ text: 'Hallo' }) });
+  await flushPromises();
+  expect(events.onCompleted).toHaveBeenCalledWith(
+    expect.objectContaining({ transcript: 'Hallo', commitId: second })
+  );
+});
+
+describe('OpenAI Realtime', () => {
+  let socket: any;
+
+  beforeEach(() => {
+    socket = undefined;
+    class FakeWebSocket {
+      static OPEN = 1;
+      readyState = 1;
+      sent: any[] = [];
+      onopen?: () => void;
+      onmessage?: (e: { data: string }) => void;
+      onclose?: (e: { code: number; reason: string }) => void;
+      onerror?: (e: any) => void;
+      constructor() {
+        socket = this;
+      }
+      send(message: string) {
+        this.sent.push(JSON.parse(message));
+      }
+      close() {
+        this.onclose?.({ code: 1000, reason: '' });
+      }
+    }
+    global.WebSocket = FakeWebSocket as any;
+  });
+
+  const receive = (message: object) => socket.onmessage({ data: JSON.stringify(message) });
+
+  test('ties completed and failed transcriptions to their commits', () => {
+    const provider = createTranscriptionProvider({ backend: 'openai-realtime', apiKey: 'sk-test' }, config);
+    const events = mockEvents();
+    provider.connect(events);
+
+    const first = provider.commit();
+    const second = provider.commit();
+    const rejected = provider.commit();
+    expect(socket.sent.map((m: any) => m.event_id)).toEqual([first, second, rejected]);
+
+    receive({ type: 'input_audio_buffer.committed', item_id: 'item_1' });
+    receive({ type: 'input_audio_buffer.committed', item_id: 'item_2' });
+    receive({ type: 'error', event_id: rejected, error: { code: 'input_audio_buffer_commit_empty' } });
+    expect(events.onFailed).toHaveBeenCalledWith(rejected, expect.anything());
+
+    // Out of order, and the first one fails
+    receive({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'item_2', transcript: 'Zwei' });
+    receive({ type: 'conversation.item.input_audio_transcription.failed', item_id: 'item_1', error: {} });
+    expect(events.onCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ transcript: 'Zwei', commitId: second })
+    );
+    expect(events.onFailed).toHaveBeenCalledWith(first, {});
+  });
+
+  test('turns committed by server VAD are identified by their item', () => {
+    const provider = createTranscriptionProvider({ backend: 'openai-realtime', apiKey: 'sk-test' }, config);
+    const events = mockEvents();
+    provider.connect(events);
+
+    receive({ type: 'input_audio_buffer.speech_stopped', item_id: 'item_9' });
+    receive({ type: 'input_audio_buffer.committed', item_id: 'item_9' });
+    const manual = provider.commit();
+    receive({ type: 'input_audio_buffer.committed', item_id: 'item_10' });
+    receive({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'item_9', transcript: 'VAD' });
+    receive({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'item_10', transcript: 'Manual' });
+
+    expect(events.onSpeechStopped).toHaveBeenCalledWith('item_9');
+    expect(events.onCompleted.mock.calls.map(([result]) => result.commitId)).toEqual(['item_9', manual]);
+  });
+
+  test('a socket that cannot be built is reported as an error and a close', () => {
+    const provider = createTranscriptionProvider(
+      {
+        backend: 'openai-realtime',
+        apiKey: 'sk-test',
+        openAIConnection: { authScheme: 'custom-header', customHeaderName: ' ' },
+      },
+      config
+    );
+    const events = mockEvents();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => provider.connect(events)).not.toThrow();
+    expect(socket).toBeUndefined();
+    expect(events.onError).toHaveBeenCalledWith(expect.any(Error));
+    expect(events.onClose).toHaveBeenCalledTimes(1);
+    expect(provider.isOpen()).toBe(false);
+    consoleError.mockRestore();
+  });
+
+  test('closing while the token broker is still asked reports the close', async () => {
+    let resolveToken: (token: { value: string; expiresAt: number }) => void = () => {};
+    const realtimeTokenSource = {
+      getToken: () => new Promise<{ value: string; expiresAt: number }>((resolve) => (resolveToken = resolve)),
+      start: jest.fn(),
+      stop: jest.fn(),
+    };
+    const provider = createTranscriptionProvider(
+      { backend: 'openai-realtime', apiKey: '', realtimeTokenSource },
+      config
+    );
+    const events = mockEvents();
+    provider.connect(events);
+
+    provider.close();
+    expect(events.onClose).toHaveBeenCalledTimes(1);
+
+    resolveToken({ value: 'ek_late', expiresAt: Date.now() + 60000 });
+    await flushPromises();
+    expect(socket).toBeUndefined();
+    expect(events.onClose).toHaveBeenCalledTimes(1);
+  });
+});
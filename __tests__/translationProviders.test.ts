@@ -0,0 +1,153 @@
+import { createTranslationProvider } from '../src/providers/translation';
+
+const mockFetch = (body: object) => {
+  const fetchMock = jest.fn(() =>
+    Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    }),
+  );
+  global.fetch = fetchMock as any;
+  return fetchMock;
+};
+
+const request = {
+  text: 'Hallo Welt',
+  targetLanguageCode: 'en',
+  targetLanguageName: 'English',
+};
+
+test('LibreTranslate posts to /translate and reads translatedText', async () => {
+  const fetchMock = mockFetch({ translatedText: 'Hello world' });
+  const provider = createTranslationProvider({
+    backend: 'libretranslate',
+    apiKey: '',
+    libreTranslateUrl: 'http://localhost:5000/',
+  });
+
+  await expect(provider.translate(request)).resolves.toBe('Hello world');
+  const [url, init] = fetchMock.mock.calls[0] as any[];
+  expect(url).toBe('http://localhost:5000/translate');
+  expect(JSON.parse(init.body)).toEqual({
+    q: 'Hallo Welt',
+    source: 'auto',
+    target: 'en',
+    format: 'text',
+  });
+});
+
+test('DeepL posts to /v2/translate with regional target codes', async () => {
+  const fetchMock = mockFetch({ translations: [{ text: 'Hello world' }] });
+  const provider = createTranslationProvider({
+    backend: 'deepl',
+    apiKey: '',
+    deepLApiKey: 'secret',
+  });
+
+  await expect(provider.translate(request)).resolves.toBe('Hello world');
+  const [url, init] = fetchMock.mock.calls[0] as any[];
+  expect(url).toBe('https://api-free.deepl.com/v2/translate');
+  expect(init.headers.Authorization).toBe('DeepL-Auth-Key secret');
+  expect(JSON.parse(init.body).target_lang).toBe('EN-US');
+});
+
+// Replays a text/event-stream body in two progress events, split mid-line
+const mockEventStream = (body: string) => {
+  const requests: any[] = [];
+  class FakeXMLHttpRequest {
+    status = 0;
+    responseText = '';
+    headers: Record<string, string> = {};
+    url = '';
+    body = '';
+    onprogress?: () => void;
+    onload?: () => void;
+    onerror?: () => void;
+    onabort?: () => void;
+    open(_method: string, url: string) {
+      this.url = url;
+    }
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+    abort() {
+      this.onabort?.();
+    }
+    send(requestBody: string) {
+      this.body = requestBody;
+      requests.push(this);
+      setTimeout(() => {
+        this.status = 200;
+        this.responseText = body.slice(0, body.length / 2);
+        this.onprogress?.();
+        this.responseText = body;
+        this.onload?.();
+      }, 0);
+    }
+  }
+  global.XMLHttpRequest = FakeXMLHttpRequest as any;
+  return requests;
+};
+
+const chunk = (content: string) =>
+  `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+test('OpenAI chat is the default backend and streams partial translations', async () => {
+  const requests = mockEventStream(chunk(' Hello') + chunk(' world') + 'data: [DONE]\n\n');
+  const provider = createTranslationProvider({ backend: 'openai-chat', apiKey: 'sk-test' });
+  const partials: string[] = [];
+
+  await expect(
+    provider.translate({ ...request, onPartial: (text) => partials.push(text) })
+  ).resolves.toBe('Hello world');
+  expect(partials).toEqual(['Hello', 'Hello world']);
+  expect(requests[0].url).toBe('https://api.openai.com/v1/chat/completions');
+  expect(JSON.parse(requests[0].body).stream).toBe(true);
+});
+
+test('aborting stops a streamed translation', async () => {
+  mockEventStream(chunk('Hello'));
+  const provider = createTranslationProvider({ backend: 'openai-chat', apiKey: 'sk-test' });
+  const controller = new AbortController();
+
+  const translation = provider.translate({ ...request, signal: controller.signal });
+  controller.abort();
+  await expect(translation).rejects.toThrow('cancelled');
+});
+
+test('earlier segments are sent as context in the system prompt', async () => {
+  const requests = mockEventStream(chunk('She is late.'));
+  const provider = createTranslationProvider({ backend: 'openai-chat', apiKey: 'sk-test' });
+
+  await provider.translate({
+    ...request,
+    text: 'Sie ist spät dran.',
+    context: [
+      { text: 'Das ist Anna.', translation: 'This is Anna.' },
+      { text: 'Hallo zusammen.' },
+    ],
+  });
+  const [system, user] = JSON.parse(requests[0].body).messages;
+  expect(system.content).toContain('Segment: Das ist Anna.\nTranslation: This is Anna.');
+  expect(system.content).toContain('Segment: Hallo zusammen.');
+  expect(user).toEqual({ role: 'user', content: 'Sie ist spät dran.' });
+});
+
+test('token usage from the final chunk is reported', async () => {
+  const usage = { choices: [], usage: { prompt_tokens: 42, completion_tokens: 7 } };
+  mockEventStream(chunk('Hello') + `data: ${JSON.stringify(usage)}\n\n` + 'data: [DONE]\n\n');
+  const provider = createTranslationProvider({ backend: 'openai-chat', apiKey: 'sk-test' });
+  const onUsage = jest.fn();
+
+  await provider.translate({ ...request, onUsage });
+  expect(onUsage).toHaveBeenCalledWith({ model: 'gpt-4o', promptTokens: 42, completionTokens: 7 });
+});
+
+test('a malformed chunk rejects the translation', async () => {
+  mockEventStream(chunk('Hello') + 'data: {"choices": [\n\n');
+  const provider = createTranslationProvider({ backend: 'openai-chat', apiKey: 'sk-test' });
+
+  await expect(provider.translate(request)).rejects.toThrow('unreadable chunk');
+});
@@ -0,0 +1,49 @@
+import { DEFAULT_PRICES, addUsage, emptyUsage, estimateCost, mergeUsage, monthKey } from '../src/utils/usage';
+
+test('accumulates audio seconds and tokens per model', () => {
+  let usage = addUsage(undefined, { kind: 'audio', model: 'whisper-1', seconds: 30 });
+  usage = addUsage(usage, { kind: 'audio', model: 'whisper-1', seconds: 15 });
+  usage = addUsage(usage, { kind: 'tokens', model: 'gpt-4o', promptTokens: 100, completionTokens: 20 });
+  usage = addUsage(usage, { kind: 'tokens', model: 'gpt-4o', promptTokens: 50, completionTokens: 5 });
+
+  expect(usage).toEqual({
+    audioSeconds: { 'whisper-1': 45 },
+    tokens: { 'gpt-4o': { prompt: 150, completion: 25 } },
+  });
+});
+
+test('merges usage totals per model', () => {
+  const stored = {
+    audioSeconds: { 'whisper-1': 60 },
+    tokens: { 'gpt-4o': { prompt: 100, completion: 10 } },
+  };
+  const recorded = {
+    audioSeconds: { 'whisper-1': 5, 'gpt-4o-transcribe': 20 },
+    tokens: { 'gpt-4o': { prompt: 1, completion: 2 } },
+  };
+
+  expect(mergeUsage(stored, recorded)).toEqual({
+    audioSeconds: { 'whisper-1': 65, 'gpt-4o-transcribe': 20 },
+    tokens: { 'gpt-4o': { prompt: 101, completion: 12 } },
+  });
+  expect(mergeUsage(undefined, recorded)).toEqual(recorded);
+});
+
+test('estimates cost from per-minute and per-million prices', () => {
+  const usage = {
+    audioSeconds: { 'gpt-4o-transcribe': 120 },
+    tokens: { 'gpt-4o': { prompt: 1_000_000, completion: 100_000 } },
+  };
+  // 2 min * 0.006 + 2.50 + 0.1 * 10
+  expect(estimateCost(usage, DEFAULT_PRICES)).toBeCloseTo(3.512);
+  expect(estimateCost(emptyUsage(), DEFAULT_PRICES)).toBe(0);
+});
+
+test('models without a price are free', () => {
+  const usage = addUsage(undefined, { kind: 'audio', model: 'unknown-model', seconds: 600 });
+  expect(estimateCost(usage, DEFAULT_PRICES)).toBe(0);
+});
+
+test('month keys are zero padded', () => {
+  expect(monthKey(new Date(2024, 4, 31))).toBe('2024-05');
+});
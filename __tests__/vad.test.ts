@@ -0,0 +1,50 @@
+import { Buffer } from 'buffer';
+import { createVoiceActivityDetector } from '../src/utils/vad';
+
+const SAMPLE_RATE = 16000;
+
+// 100ms chunk of a sine tone (speech stand-in) or near silence
+const chunk = (amplitude: number, frequency = 220) => {
+  const samples = SAMPLE_RATE / 10;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.round(amplitude * 32767 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+    pcm.writeInt16LE(value, i * 2);
+  }
+  return pcm;
+};
+
+const createVad = () => createVoiceActivityDetector({ energyThreshold: 0.02, hangoverMs: 500 });
+
+test('detects speech start and ends the turn after the hangover', () => {
+  const vad = createVad();
+  expect(vad.process(chunk(0.001))).toBeNull();
+  // Needs at least 150ms of speech before the turn starts
+  expect(vad.process(chunk(0.3))).toBeNull();
+  expect(vad.process(chunk(0.3))).toBe('speech_start');
+
+  // Short pauses inside a sentence don't end the turn
+  expect(vad.process(chunk(0.001))).toBeNull();
+  expect(vad.process(chunk(0.3))).toBeNull();
+
+  const events = [1, 2, 3, 4, 5, 6].map(() => vad.process(chunk(0.001)));
+  expect(events).toContain('speech_end');
+  expect(vad.isSpeaking()).toBe(false);
+});
+
+test('ignores steady background noise', () => {
+  const vad = createVad();
+  for (let i = 0; i < 20; i++) {
+    expect(vad.process(chunk(0.005))).toBeNull();
+  }
+});
+
+test('reports where the speech began within the chunks before speech_start', () => {
+  const vad = createVad();
+  // 40ms of silence, then speech that is only confirmed in the next chunk
+  const first = Buffer.concat([chunk(0.001).subarray(0, 1280), chunk(0.3).subarray(0, 1920)]);
+  expect(vad.process(first)).toBeNull();
+  expect(vad.process(chunk(0.3))).toBe('speech_start');
+  // 60ms of speech in the first chunk and all 100ms of the second
+  expect(vad.speechStartOffsetMs()).toBeCloseTo(160);
+});
@@ -0,0 +1,18 @@
+import { Buffer } from 'buffer';
+import { encodeWav, findWavDataOffset } from '../src/utils/wav';
+
+test('finds the PCM data right after a plain 44 byte header', () => {
+  const wav = encodeWav(Buffer.alloc(320));
+  expect(findWavDataOffset(wav)).toBe(44);
+  expect(wav.readUInt32LE(40)).toBe(320);
+});
+
+test('skips extra chunks written before the PCM data', () => {
+  const wav = encodeWav(Buffer.alloc(320));
+  const filler = Buffer.alloc(8 + 4044);
+  filler.write('FLLR', 0, 'ascii');
+  filler.writeUInt32LE(4044, 4);
+  // RIFF header and fmt chunk, then the filler, then the data chunk
+  const padded = Buffer.concat([wav.subarray(0, 36), filler, wav.subarray(36)]);
+  expect(findWavDataOffset(padded)).toBe(36 + filler.length + 8);
+});
@@ -0,0 +1,37 @@
+/* eslint-env jest */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('react-native-audio-record', () => ({
+  init: jest.fn(),
+  start: jest.fn(),
+  stop: jest.fn(() => Promise.resolve('')),
+  on: jest.fn(),
+}));
+
+jest.mock('react-native-keep-awake', () => ({
+  activate: jest.fn(),
+  deactivate: jest.fn(),
+}));
+
+jest.mock('react-native-fs', () => ({
+  CachesDirectoryPath: '/cache',
+  DocumentDirectoryPath: '/documents',
+  writeFile: jest.fn(() => Promise.resolve()),
+  readFile: jest.fn(() => Promise.resolve('')),
+  read: jest.fn(() => Promise.resolve('')),
+  unlink: jest.fn(() => Promise.resolve()),
+  mkdir: jest.fn(() => Promise.resolve()),
+  exists: jest.fn(() => Promise.resolve(false)),
+  readDir: jest.fn(() => Promise.resolve([])),
+}));
+
+jest.mock('react-native-sound', () =>
+  jest.fn().mockImplementation(() => ({
+    play: jest.fn(),
+    stop: jest.fn(),
+    release: jest.fn(),
+  })),
+);
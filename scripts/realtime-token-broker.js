@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+// Reference token broker for the "Realtime Token Broker URL" setting. It keeps the
+// long-lived OpenAI key on the server and hands the app short-lived realtime client
+// secrets. Put real authentication in front of it before exposing it anywhere.
+//
+//   OPENAI_API_KEY=sk-... node scripts/realtime-token-broker.js
+//   FAKE_SECRETS=1 node scripts/realtime-token-broker.js   # stand-in, no OpenAI call
+//
+// Environment:
+//   PORT             Port to listen on (default 8787)
+//   OPENAI_API_KEY   Key used to mint secrets
+//   UPSTREAM_URL     Where secrets are minted (default OpenAI transcription sessions)
+//   FAKE_SECRETS     Return made-up secrets that expire after FAKE_TTL_SECONDS (default 60)
+//
+// Requires Node 18+ for fetch.
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT || 8787);
+const UPSTREAM_URL =
+  process.env.UPSTREAM_URL || 'https://api.openai.com/v1/realtime/transcription_sessions';
+const FAKE_TTL_SECONDS = Number(process.env.FAKE_TTL_SECONDS || 60);
+
+const mintFakeSecret = () => ({
+  client_secret: {
+    value: `ek_fake_${Math.random().toString(36).slice(2)}`,
+    expires_at: Math.floor(Date.now() / 1000) + FAKE_TTL_SECONDS,
+  },
+});
+
+// The app configures the session over the socket, so an empty session is enough here
+const mintSecret = async () => {
+  const response = await fetch(UPSTREAM_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({}),
+  });
+  const body = await response.text();
+  return { status: response.status, body };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body);
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    send(res, 405, JSON.stringify({ error: 'Use POST' }));
+    return;
+  }
+
+  try {
+    if (process.env.FAKE_SECRETS) {
+      send(res, 200, JSON.stringify(mintFakeSecret()));
+    } else {
+      const { status, body } = await mintSecret();
+      send(res, status, body);
+    }
+    console.log(new Date().toISOString(), 'minted realtime secret');
+  } catch (error) {
+    console.error('Failed to mint realtime secret:', error);
+    send(res, 502, JSON.stringify({ error: 'Could not reach upstream' }));
+  }
+});
+
+if (!process.env.FAKE_SECRETS && !process.env.OPENAI_API_KEY) {
+  console.error('Set OPENAI_API_KEY, or FAKE_SECRETS=1 to run as a stand-in.');
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.log(`Realtime token broker listening on http://localhost:${PORT}`);
+});
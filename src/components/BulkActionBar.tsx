@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import LanguageSelector from './LanguageSelector';
+import { LANGUAGES } from '../constants/languages';
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+interface Props {
+  selectedCount: number;
+  totalCount: number;
+  targetLanguage: string;
+  onTargetLanguageChange: (languageCode: string) => void;
+  progress: BulkProgress | null; // Set while a batch translation runs
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onTranslate: () => void;
+  onCancelTranslate: () => void;
+  onCopy: () => void;
+  onShare: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+}
+
+// Actions for the rows selected in multi-select mode; with nothing selected they apply to the whole session
+const BulkActionBar: React.FC<Props> = ({
+  selectedCount,
+  totalCount,
+  targetLanguage,
+  onTargetLanguageChange,
+  progress,
+  onSelectAll,
+  onSelectNone,
+  onTranslate,
+  onCancelTranslate,
+  onCopy,
+  onShare,
+  onDelete,
+  onDone,
+}) => {
+  const scope = selectedCount > 0 ? `${selectedCount} selected` : `All ${totalCount}`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.scope}>{scope}</Text>
+        <TouchableOpacity onPress={selectedCount === totalCount ? onSelectNone : onSelectAll}>
+          <Text style={styles.link}>{selectedCount === totalCount ? 'Select none' : 'Select all'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onDone}>
+          <Text style={styles.link}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <LanguageSelector
+        languages={LANGUAGES}
+        selected={targetLanguage}
+        onChange={onTargetLanguageChange}
+      />
+
+      {progress ? (
+        <View style={styles.row}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${(progress.done / progress.total) * 100}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {progress.done}/{progress.total}
+          </Text>
+          <TouchableOpacity style={styles.button} onPress={onCancelTranslate}>
+            <Text style={styles.buttonText}>Stop</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.row}>
+          <TouchableOpacity style={styles.button} onPress={onTranslate}>
+            <Text style={styles.buttonText}>🌐 Translate</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={onCopy}>
+            <Text style={styles.buttonText}>📋 Copy</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={onShare}>
+            <Text style={styles.buttonText}>📤 Share</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={onDelete}>
+            <Text style={styles.buttonText}>🗑️</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 4,
+    backgroundColor: '#f5f5f5',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  scope: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  link: {
+    fontSize: 14,
+    color: '#2196f3',
+  },
+  button: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 4,
+    backgroundColor: '#4caf50',
+  },
+  dangerButton: {
+    backgroundColor: '#f44336',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#ddd',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#2196f3',
+  },
+  progressText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
+
+export default BulkActionBar;
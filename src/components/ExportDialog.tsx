@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import LanguageSelector from './LanguageSelector';
+import { Session } from '../storage/sessionStorage';
+import { getLanguageLabel } from '../constants/languages';
+import {
+  EXPORT_FIELDS,
+  EXPORT_FORMATS,
+  ExportField,
+  ExportFormat,
+  ExportOptions,
+  SUBTITLE_TEXT_MODES,
+  SubtitleTextMode,
+} from '../export';
+
+export type ExportDestination = 'share' | 'save';
+
+interface Props {
+  visible: boolean;
+  session: Session;
+  onExport: (options: ExportOptions, destination: ExportDestination) => void;
+  onClose: () => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "2024-05-01 10:15" in local time
+const formatDateTimeInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Empty input leaves the range open, anything unparsable is reported as null
+const parseDateTimeInput = (text: string): Date | undefined | null => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours = '0', minutes = '0'] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+};
+
+const ExportDialog: React.FC<Props> = ({ visible, session, onExport, onClose }) => {
+  const timestamps = session.transcripts.map((t) => t.timestamp.getTime());
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [fromText, setFromText] = useState(() =>
+    timestamps.length > 0 ? formatDateTimeInput(new Date(Math.min(...timestamps))) : ''
+  );
+  // Minutes are the input's resolution, so leave the end of the range open by default
+  const [toText, setToText] = useState('');
+  const [fields, setFields] = useState<ExportField[]>(['time', 'speaker', 'language', 'translations']);
+  const [textMode, setTextMode] = useState<SubtitleTextMode>('source');
+  // Only offer languages the session actually has translations for
+  const translationLanguages = Array.from(
+    new Set(session.transcripts.flatMap((t) => Object.keys(t.translations ?? {})))
+  );
+  const [translationLanguage, setTranslationLanguage] = useState(translationLanguages[0] ?? '');
+
+  const from = parseDateTimeInput(fromText);
+  const to = parseDateTimeInput(toText);
+  const isSubtitleFormat = format === 'srt' || format === 'vtt';
+  const hasFields = format === 'markdown' || format === 'csv';
+  const needsTranslation = isSubtitleFormat && textMode !== 'source';
+  const canExport = from !== null && to !== null && (!needsTranslation || !!translationLanguage);
+
+  const toggleField = (field: ExportField) =>
+    setFields((prev) => (prev.includes(field) ? prev.filter((f) => f !== field) : [...prev, field]));
+
+  const handleExport = (destination: ExportDestination) => {
+    if (!canExport) return;
+    onExport(
+      {
+        format,
+        from: from ?? undefined,
+        // Include the whole "to" minute
+        to: to ? new Date(to.getTime() + 59999) : undefined,
+        fields,
+        subtitles: { textMode, translationLanguage: needsTranslation ? translationLanguage : undefined },
+      },
+      destination
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <ScrollView>
+            <Text style={styles.title}>Export “{session.title}”</Text>
+
+            <Text style={styles.label}>Format</Text>
+            <LanguageSelector
+              languages={EXPORT_FORMATS}
+              selected={format}
+              onChange={(value) => setFormat(value as ExportFormat)}
+            />
+
+            <Text style={styles.label}>From (YYYY-MM-DD HH:MM, empty for all)</Text>
+            <TextInput
+              style={[styles.input, from === null && styles.invalidInput]}
+              value={fromText}
+              onChangeText={setFromText}
+              placeholder="2024-05-01 10:00"
+              autoCorrect={false}
+            />
+            <Text style={styles.label}>To</Text>
+            <TextInput
+              style={[styles.input, to === null && styles.invalidInput]}
+              value={toText}
+              onChangeText={setToText}
+              placeholder="2024-05-01 11:00"
+              autoCorrect={false}
+            />
+
+            {hasFields && (
+              <>
+                <Text style={styles.label}>Fields</Text>
+                <View style={styles.chips}>
+                  {EXPORT_FIELDS.map(({ value, label }) => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[styles.chip, fields.includes(value) && styles.chipSelected]}
+                      onPress={() => toggleField(value)}
+                    >
+                      <Text style={[styles.chipText, fields.includes(value) && styles.chipTextSelected]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {isSubtitleFormat && (
+              <>
+                <Text style={styles.label}>Cue Text</Text>
+                <LanguageSelector
+                  languages={SUBTITLE_TEXT_MODES}
+                  selected={textMode}
+                  onChange={(value) => setTextMode(value as SubtitleTextMode)}
+                />
+                {needsTranslation &&
+                  (translationLanguages.length > 0 ? (
+                    <LanguageSelector
+                      languages={translationLanguages.map((code) => ({ label: getLanguageLabel(code), value: code }))}
+                      selected={translationLanguage}
+                      onChange={setTranslationLanguage}
+                    />
+                  ) : (
+                    <Text style={styles.hint}>This session has no translations yet.</Text>
+                  ))}
+                <Text style={styles.hint}>Segments recorded without timings are left out.</Text>
+              </>
+            )}
+
+            {format === 'json' && (
+              <Text style={styles.hint}>
+                Includes every field, confidence scores and translations. Saved JSON files can be imported from History.
+              </Text>
+            )}
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton, !canExport && styles.disabledButton]}
+                disabled={!canExport}
+                onPress={() => handleExport('share')}
+              >
+                <Text style={[styles.buttonText, styles.primaryButtonText]}>📤 Share</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton, !canExport && styles.disabledButton]}
+                disabled={!canExport}
+                onPress={() => handleExport('save')}
+              >
+                <Text style={[styles.buttonText, styles.primaryButtonText]}>💾 Save</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.button} onPress={onClose}>
+                <Text style={styles.buttonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    maxHeight: '85%',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    backgroundColor: 'white',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: 'black',
+    marginBottom: 8,
+  },
+  label: {
+    marginTop: 8,
+    fontWeight: '600',
+    color: 'black',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 8,
+    marginTop: 4,
+    color: 'black',
+  },
+  invalidInput: {
+    borderColor: '#f44336',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2196f3',
+  },
+  chipSelected: {
+    backgroundColor: '#2196f3',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2196f3',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  primaryButton: {
+    backgroundColor: '#2196f3',
+  },
+  primaryButtonText: {
+    color: '#fff',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default ExportDialog;
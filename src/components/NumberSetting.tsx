@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+
+interface Props {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+}
+
+// Numeric text field that only reports values once they parse and are in range
+const NumberSetting: React.FC<Props> = ({ label, value, onChange, min, max }) => {
+  const [text, setText] = useState(String(value));
+
+  // Follow outside changes, e.g. when persisted settings are restored
+  useEffect(() => {
+    setText((prev) => (Number(prev) === value ? prev : String(value)));
+  }, [value]);
+
+  const handleChangeText = (newText: string) => {
+    setText(newText);
+    const parsed = Number(newText.replace(',', '.'));
+    if (newText.trim() === '' || Number.isNaN(parsed)) return;
+    if (min !== undefined && parsed < min) return;
+    if (max !== undefined && parsed > max) return;
+    onChange(parsed);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        keyboardType="numeric"
+        value={text}
+        onChangeText={handleChangeText}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 4,
+  },
+  label: {
+    flex: 1,
+    color: 'black',
+  },
+  input: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 6,
+    color: 'black',
+    textAlign: 'right',
+  },
+});
+
+export default NumberSetting;
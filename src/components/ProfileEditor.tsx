@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import LanguageSelector from './LanguageSelector';
+import { TranscriptionProfile } from '../storage/profileStorage';
+import { parseVocabulary } from '../providers/transcription';
+
+interface Props {
+  profiles: TranscriptionProfile[];
+  activeProfile: TranscriptionProfile;
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string) => void;
+  onUpdate: (profileId: string, changes: Partial<Omit<TranscriptionProfile, 'id'>>) => void;
+  onDelete: (profileId: string) => void;
+}
+
+const ProfileEditor: React.FC<Props> = ({
+  profiles,
+  activeProfile,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+}) => {
+  // Edited as free text so separators can be typed before the term is complete
+  const [vocabularyText, setVocabularyText] = useState(activeProfile.vocabulary.join('\n'));
+
+  useEffect(() => {
+    setVocabularyText(activeProfile.vocabulary.join('\n'));
+    // Only reset the text when switching profiles
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeProfile.id]);
+
+  const handleVocabularyChange = (text: string) => {
+    setVocabularyText(text);
+    onUpdate(activeProfile.id, { vocabulary: parseVocabulary(text) });
+  };
+
+  return (
+    <View>
+      <LanguageSelector
+        languages={profiles.map((profile) => ({ label: profile.name, value: profile.id }))}
+        selected={activeProfile.id}
+        onChange={onSelect}
+      />
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => onCreate(`Profile ${profiles.length + 1}`)}
+        >
+          <Text style={styles.buttonText}>＋ New profile</Text>
+        </TouchableOpacity>
+        {profiles.length > 1 && (
+          <TouchableOpacity
+            style={[styles.button, styles.deleteButton]}
+            onPress={() => onDelete(activeProfile.id)}
+          >
+            <Text style={[styles.buttonText, styles.deleteButtonText]}>Delete</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text style={styles.label}>Profile Name</Text>
+      <TextInput
+        style={styles.input}
+        value={activeProfile.name}
+        onChangeText={(name) => onUpdate(activeProfile.id, { name })}
+      />
+
+      <Text style={styles.label}>Transcription Prompt</Text>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        placeholder="e.g. Weekly sync of the Growheads grow team."
+        multiline
+        value={activeProfile.prompt}
+        onChangeText={(prompt) => onUpdate(activeProfile.id, { prompt })}
+      />
+
+      <Text style={styles.label}>Vocabulary (one term per line or comma separated)</Text>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        placeholder={'Growheads\nNorthern Lights\nAnna Schmidt'}
+        multiline
+        autoCorrect={false}
+        value={vocabularyText}
+        onChangeText={handleVocabularyChange}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  deleteButton: {
+    backgroundColor: '#f44336',
+  },
+  deleteButtonText: {
+    color: '#fff',
+  },
+  label: {
+    marginTop: 12,
+    marginBottom: 4,
+    fontWeight: '600',
+    color: 'black',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 8,
+    backgroundColor: 'white',
+    color: 'black',
+  },
+  multiline: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+});
+
+export default ProfileEditor;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import LanguageSelector from './LanguageSelector';
+import { getLanguageLabel } from '../constants/languages';
+import { SPEAKER_COLORS, Speaker, createSpeaker } from '../utils/speakers';
+
+interface Props {
+  speakers: Speaker[];
+  languages: string[]; // Session languages a speaker can be tied to
+  onChange: (speakers: Speaker[]) => void;
+}
+
+const SpeakerEditor: React.FC<Props> = ({ speakers, languages, onChange }) => {
+  const update = (speakerId: string, changes: Partial<Omit<Speaker, 'id'>>) =>
+    onChange(speakers.map((speaker) => (speaker.id === speakerId ? { ...speaker, ...changes } : speaker)));
+
+  const nextColor = (color: string) =>
+    SPEAKER_COLORS[(SPEAKER_COLORS.indexOf(color) + 1) % SPEAKER_COLORS.length];
+
+  // Suggest the first language nobody speaks yet
+  const handleAdd = () =>
+    onChange([
+      ...speakers,
+      createSpeaker(speakers, languages.find((code) => !speakers.some((s) => s.language === code))),
+    ]);
+
+  return (
+    <View>
+      {speakers.map((speaker) => (
+        <View key={speaker.id} style={styles.speaker}>
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.colorSwatch, { backgroundColor: speaker.color }]}
+              onPress={() => update(speaker.id, { color: nextColor(speaker.color) })}
+            />
+            <TextInput
+              style={styles.input}
+              value={speaker.name}
+              onChangeText={(name) => update(speaker.id, { name })}
+            />
+            <TouchableOpacity
+              style={[styles.button, styles.deleteButton]}
+              onPress={() => onChange(speakers.filter((s) => s.id !== speaker.id))}
+            >
+              <Text style={[styles.buttonText, styles.deleteButtonText]}>✕</Text>
+            </TouchableOpacity>
+          </View>
+          <LanguageSelector
+            languages={[
+              { label: 'Any language', value: '' },
+              ...languages.map((code) => ({ label: getLanguageLabel(code), value: code })),
+            ]}
+            selected={speaker.language ?? ''}
+            onChange={(language) => update(speaker.id, { language: language || undefined })}
+          />
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <TouchableOpacity style={styles.button} onPress={handleAdd}>
+          <Text style={styles.buttonText}>＋ Add speaker</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  speaker: {
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  button: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  deleteButton: {
+    backgroundColor: '#f44336',
+  },
+  deleteButtonText: {
+    color: '#fff',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 8,
+    backgroundColor: 'white',
+    color: 'black',
+  },
+});
+
+export default SpeakerEditor;
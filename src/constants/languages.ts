@@ -1,64 +1,122 @@
+export type Script =
+  | 'Arabic'
+  | 'Armenian'
+  | 'Cyrillic'
+  | 'Devanagari'
+  | 'Greek'
+  | 'Han'
+  | 'Hangul'
+  | 'Hebrew'
+  | 'Japanese'
+  | 'Kannada'
+  | 'Latin'
+  | 'Tamil'
+  | 'Thai';
+
+// Everything the app knows about a language. The hook (franc detection, auto-translation)
+// and the UI (pickers, badges, labels) all look languages up here.
+export interface Language {
+  iso6391: string; // ISO 639-1, used for settings, translation targets and the OpenAI language param
+  iso6393: string; // ISO 639-3 as reported by franc (individual language, e.g. 'arb' rather than 'ara')
+  francAliases?: string[]; // Other franc codes that mean the same language
+  name: string; // English name, also what translation prompts use
+  nativeName: string;
+  script: Script;
+  rtl?: boolean;
+}
+
 export interface LanguageItem {
   label: string;
   value: string; // ISO 639-1 or OpenAI accepted language tag
 }
 
-export const LANGUAGES: LanguageItem[] = [
-  { label: 'Afrikaans', value: 'af' },
-  { label: 'Arabic', value: 'ar' },
-  { label: 'Armenian', value: 'hy' },
-  { label: 'Azerbaijani', value: 'az' },
-  { label: 'Belarusian', value: 'be' },
-  { label: 'Bosnian', value: 'bs' },
-  { label: 'Bulgarian', value: 'bg' },
-  { label: 'Catalan', value: 'ca' },
-  { label: 'Chinese', value: 'zh' },
-  { label: 'Croatian', value: 'hr' },
-  { label: 'Czech', value: 'cs' },
-  { label: 'Danish', value: 'da' },
-  { label: 'Dutch', value: 'nl' },
-  { label: 'English', value: 'en' },
-  { label: 'Estonian', value: 'et' },
-  { label: 'Finnish', value: 'fi' },
-  { label: 'French', value: 'fr' },
-  { label: 'Galician', value: 'gl' },
-  { label: 'German', value: 'de' },
-  { label: 'Greek', value: 'el' },
-  { label: 'Hebrew', value: 'he' },
-  { label: 'Hindi', value: 'hi' },
-  { label: 'Hungarian', value: 'hu' },
-  { label: 'Icelandic', value: 'is' },
-  { label: 'Indonesian', value: 'id' },
-  { label: 'Italian', value: 'it' },
-  { label: 'Japanese', value: 'ja' },
-  { label: 'Kannada', value: 'kn' },
-  { label: 'Kazakh', value: 'kk' },
-  { label: 'Korean', value: 'ko' },
-  { label: 'Latvian', value: 'lv' },
-  { label: 'Lithuanian', value: 'lt' },
-  { label: 'Macedonian', value: 'mk' },
-  { label: 'Malay', value: 'ms' },
-  { label: 'Marathi', value: 'mr' },
-  { label: 'Maori', value: 'mi' },
-  { label: 'Nepali', value: 'ne' },
-  { label: 'Norwegian', value: 'no' },
-  { label: 'Persian', value: 'fa' },
-  { label: 'Polish', value: 'pl' },
-  { label: 'Portuguese', value: 'pt' },
-  { label: 'Romanian', value: 'ro' },
-  { label: 'Russian', value: 'ru' },
-  { label: 'Serbian', value: 'sr' },
-  { label: 'Slovak', value: 'sk' },
-  { label: 'Slovenian', value: 'sl' },
-  { label: 'Spanish', value: 'es' },
-  { label: 'Swahili', value: 'sw' },
-  { label: 'Swedish', value: 'sv' },
-  { label: 'Tagalog', value: 'tl' },
-  { label: 'Tamil', value: 'ta' },
-  { label: 'Thai', value: 'th' },
-  { label: 'Turkish', value: 'tr' },
-  { label: 'Ukrainian', value: 'uk' },
-  { label: 'Urdu', value: 'ur' },
-  { label: 'Vietnamese', value: 'vi' },
-  { label: 'Welsh', value: 'cy' },
-]; 
\ No newline at end of file
+export const LANGUAGE_REGISTRY: Language[] = [
+  { iso6391: 'af', iso6393: 'afr', name: 'Afrikaans', nativeName: 'Afrikaans', script: 'Latin' },
+  { iso6391: 'ar', iso6393: 'arb', name: 'Arabic', nativeName: 'العربية', script: 'Arabic', rtl: true },
+  { iso6391: 'hy', iso6393: 'hye', name: 'Armenian', nativeName: 'Հայերեն', script: 'Armenian' },
+  { iso6391: 'az', iso6393: 'azj', name: 'Azerbaijani', nativeName: 'Azərbaycanca', script: 'Latin' },
+  { iso6391: 'be', iso6393: 'bel', name: 'Belarusian', nativeName: 'Беларуская', script: 'Cyrillic' },
+  { iso6391: 'bs', iso6393: 'bos', name: 'Bosnian', nativeName: 'Bosanski', script: 'Latin' },
+  { iso6391: 'bg', iso6393: 'bul', name: 'Bulgarian', nativeName: 'Български', script: 'Cyrillic' },
+  { iso6391: 'ca', iso6393: 'cat', name: 'Catalan', nativeName: 'Català', script: 'Latin' },
+  { iso6391: 'zh', iso6393: 'cmn', name: 'Chinese', nativeName: '中文', script: 'Han' },
+  { iso6391: 'hr', iso6393: 'hrv', name: 'Croatian', nativeName: 'Hrvatski', script: 'Latin' },
+  { iso6391: 'cs', iso6393: 'ces', name: 'Czech', nativeName: 'Čeština', script: 'Latin' },
+  { iso6391: 'da', iso6393: 'dan', name: 'Danish', nativeName: 'Dansk', script: 'Latin' },
+  { iso6391: 'nl', iso6393: 'nld', name: 'Dutch', nativeName: 'Nederlands', script: 'Latin' },
+  { iso6391: 'en', iso6393: 'eng', name: 'English', nativeName: 'English', script: 'Latin' },
+  { iso6391: 'et', iso6393: 'ekk', name: 'Estonian', nativeName: 'Eesti', script: 'Latin' },
+  { iso6391: 'fi', iso6393: 'fin', name: 'Finnish', nativeName: 'Suomi', script: 'Latin' },
+  { iso6391: 'fr', iso6393: 'fra', name: 'French', nativeName: 'Français', script: 'Latin' },
+  { iso6391: 'gl', iso6393: 'glg', name: 'Galician', nativeName: 'Galego', script: 'Latin' },
+  { iso6391: 'de', iso6393: 'deu', name: 'German', nativeName: 'Deutsch', script: 'Latin' },
+  { iso6391: 'el', iso6393: 'ell', name: 'Greek', nativeName: 'Ελληνικά', script: 'Greek' },
+  { iso6391: 'he', iso6393: 'heb', name: 'Hebrew', nativeName: 'עברית', script: 'Hebrew', rtl: true },
+  { iso6391: 'hi', iso6393: 'hin', name: 'Hindi', nativeName: 'हिन्दी', script: 'Devanagari' },
+  { iso6391: 'hu', iso6393: 'hun', name: 'Hungarian', nativeName: 'Magyar', script: 'Latin' },
+  { iso6391: 'is', iso6393: 'isl', name: 'Icelandic', nativeName: 'Íslenska', script: 'Latin' }, // Not in franc's language set, never auto-detected
+  { iso6391: 'id', iso6393: 'ind', name: 'Indonesian', nativeName: 'Bahasa Indonesia', script: 'Latin' },
+  { iso6391: 'it', iso6393: 'ita', name: 'Italian', nativeName: 'Italiano', script: 'Latin' },
+  { iso6391: 'ja', iso6393: 'jpn', name: 'Japanese', nativeName: '日本語', script: 'Japanese' },
+  { iso6391: 'kn', iso6393: 'kan', name: 'Kannada', nativeName: 'ಕನ್ನಡ', script: 'Kannada' },
+  { iso6391: 'kk', iso6393: 'kaz', name: 'Kazakh', nativeName: 'Қазақ тілі', script: 'Cyrillic' },
+  { iso6391: 'ko', iso6393: 'kor', name: 'Korean', nativeName: '한국어', script: 'Hangul' },
+  { iso6391: 'lv', iso6393: 'lvs', name: 'Latvian', nativeName: 'Latviešu', script: 'Latin' },
+  { iso6391: 'lt', iso6393: 'lit', name: 'Lithuanian', nativeName: 'Lietuvių', script: 'Latin' },
+  { iso6391: 'mk', iso6393: 'mkd', name: 'Macedonian', nativeName: 'Македонски', script: 'Cyrillic' },
+  { iso6391: 'ms', iso6393: 'zlm', name: 'Malay', nativeName: 'Bahasa Melayu', script: 'Latin' },
+  { iso6391: 'mr', iso6393: 'mar', name: 'Marathi', nativeName: 'मराठी', script: 'Devanagari' },
+  { iso6391: 'mi', iso6393: 'mri', name: 'Maori', nativeName: 'Te Reo Māori', script: 'Latin' }, // Not in franc's language set, never auto-detected
+  { iso6391: 'ne', iso6393: 'npi', name: 'Nepali', nativeName: 'नेपाली', script: 'Devanagari' },
+  { iso6391: 'no', iso6393: 'nob', name: 'Norwegian', nativeName: 'Norsk', script: 'Latin', francAliases: ['nno'] }, // franc tells Bokmål and Nynorsk apart
+  { iso6391: 'fa', iso6393: 'pes', name: 'Persian', nativeName: 'فارسی', script: 'Arabic', rtl: true },
+  { iso6391: 'pl', iso6393: 'pol', name: 'Polish', nativeName: 'Polski', script: 'Latin' },
+  { iso6391: 'pt', iso6393: 'por', name: 'Portuguese', nativeName: 'Português', script: 'Latin' },
+  { iso6391: 'ro', iso6393: 'ron', name: 'Romanian', nativeName: 'Română', script: 'Latin' },
+  { iso6391: 'ru', iso6393: 'rus', name: 'Russian', nativeName: 'Русский', script: 'Cyrillic' },
+  { iso6391: 'sr', iso6393: 'srp', name: 'Serbian', nativeName: 'Српски', script: 'Cyrillic' },
+  { iso6391: 'sk', iso6393: 'slk', name: 'Slovak', nativeName: 'Slovenčina', script: 'Latin' },
+  { iso6391: 'sl', iso6393: 'slv', name: 'Slovenian', nativeName: 'Slovenščina', script: 'Latin' },
+  { iso6391: 'es', iso6393: 'spa', name: 'Spanish', nativeName: 'Español', script: 'Latin' },
+  { iso6391: 'sw', iso6393: 'swh', name: 'Swahili', nativeName: 'Kiswahili', script: 'Latin' },
+  { iso6391: 'sv', iso6393: 'swe', name: 'Swedish', nativeName: 'Svenska', script: 'Latin' },
+  { iso6391: 'tl', iso6393: 'tgl', name: 'Tagalog', nativeName: 'Tagalog', script: 'Latin' },
+  { iso6391: 'ta', iso6393: 'tam', name: 'Tamil', nativeName: 'தமிழ்', script: 'Tamil' },
+  { iso6391: 'th', iso6393: 'tha', name: 'Thai', nativeName: 'ไทย', script: 'Thai' },
+  { iso6391: 'tr', iso6393: 'tur', name: 'Turkish', nativeName: 'Türkçe', script: 'Latin' },
+  { iso6391: 'uk', iso6393: 'ukr', name: 'Ukrainian', nativeName: 'Українська', script: 'Cyrillic' },
+  { iso6391: 'ur', iso6393: 'urd', name: 'Urdu', nativeName: 'اردو', script: 'Arabic', rtl: true },
+  { iso6391: 'vi', iso6393: 'vie', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'Latin' },
+  { iso6391: 'cy', iso6393: 'cym', name: 'Welsh', nativeName: 'Cymraeg', script: 'Latin' }, // Not in franc's language set, never auto-detected
+];
+
+// Picker items for the selectable languages
+export const LANGUAGES: LanguageItem[] = LANGUAGE_REGISTRY.map((language) => ({
+  label: language.name,
+  value: language.iso6391,
+}));
+
+// franc's code for text it can't identify
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const findLanguage = (iso6391: string): Language | undefined =>
+  LANGUAGE_REGISTRY.find((language) => language.iso6391 === iso6391);
+
+export const findLanguageByFrancCode = (francCode: string): Language | undefined =>
+  LANGUAGE_REGISTRY.find(
+    (language) => language.iso6393 === francCode || language.francAliases?.includes(francCode)
+  );
+
+// English name for an ISO 639-1 code
+export const getLanguageLabel = (code: string): string =>
+  findLanguage(code)?.name ?? code.toUpperCase();
+
+// English name for a franc (ISO 639-3) code
+export const getLanguageNameFromFrancCode = (francCode: string): string => {
+  if (francCode === UNDETERMINED_LANGUAGE) {
+    return 'Unknown';
+  }
+  return findLanguageByFrancCode(francCode)?.name ?? francCode.toUpperCase();
+};
+
+export const isRightToLeft = (iso6391: string): boolean => !!findLanguage(iso6391)?.rtl;
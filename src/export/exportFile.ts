@@ -0,0 +1,50 @@
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+
+// Saved exports live in the app's documents folder, where the import list looks for them
+export const EXPORTS_DIRECTORY = `${RNFS.DocumentDirectoryPath}/exports`;
+
+export interface SavedExport {
+  name: string;
+  path: string;
+  modifiedAt?: Date;
+}
+
+// Turn a session title into something every file system accepts
+export const exportFileName = (title: string, extension: string): string => {
+  const base = title.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'transcript';
+  return `${base}.${extension}`;
+};
+
+// Write the export to the cache directory and hand it to the share sheet
+export const shareExportFile = async (fileName: string, content: string): Promise<string> => {
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, content, 'utf8');
+
+  // iOS can attach the file itself, Android's Share API only takes text
+  await Share.share(
+    Platform.OS === 'ios' ? { url: `file://${path}`, title: fileName } : { message: content, title: fileName },
+  );
+  return path;
+};
+
+export const saveExportFile = async (fileName: string, content: string): Promise<string> => {
+  await RNFS.mkdir(EXPORTS_DIRECTORY);
+  const path = `${EXPORTS_DIRECTORY}/${fileName}`;
+  await RNFS.writeFile(path, content, 'utf8');
+  return path;
+};
+
+// Saved files with the given extension, newest first
+export const listSavedExports = async (extension: string): Promise<SavedExport[]> => {
+  if (!(await RNFS.exists(EXPORTS_DIRECTORY))) {
+    return [];
+  }
+  const items = await RNFS.readDir(EXPORTS_DIRECTORY);
+  return items
+    .filter((item) => item.isFile() && item.name.endsWith(`.${extension}`))
+    .map((item) => ({ name: item.name, path: item.path, modifiedAt: item.mtime }))
+    .sort((a, b) => (b.modifiedAt?.getTime() ?? 0) - (a.modifiedAt?.getTime() ?? 0));
+};
+
+export const readExportFile = (path: string): Promise<string> => RNFS.readFile(path, 'utf8');
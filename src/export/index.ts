@@ -0,0 +1,63 @@
+import { Session } from '../storage/sessionStorage';
+import { SubtitleOptions, formatSubtitles } from './subtitles';
+import {
+  ExportField,
+  filterByDateRange,
+  formatSessionCsv,
+  formatSessionJson,
+  formatSessionMarkdown,
+} from './sessionExport';
+import { exportFileName } from './exportFile';
+
+export * from './subtitles';
+export * from './sessionExport';
+export * from './exportFile';
+
+export type ExportFormat = 'json' | 'markdown' | 'csv' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON (lossless, importable)' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'csv', label: 'CSV (spreadsheets)' },
+  { value: 'srt', label: 'SubRip subtitles (.srt)' },
+  { value: 'vtt', label: 'WebVTT subtitles (.vtt)' },
+];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  csv: 'csv',
+  srt: 'srt',
+  vtt: 'vtt',
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from?: Date;
+  to?: Date;
+  fields: ExportField[]; // Markdown and CSV only
+  subtitles: SubtitleOptions; // SRT and WebVTT only
+}
+
+export interface ExportResult {
+  fileName: string;
+  content: string;
+}
+
+export function buildExport(session: Session, options: ExportOptions): ExportResult {
+  const selected = filterByDateRange(session, options.from, options.to);
+  const fileName = exportFileName(session.title, FILE_EXTENSIONS[options.format]);
+
+  switch (options.format) {
+    case 'markdown':
+      return { fileName, content: formatSessionMarkdown(selected, options.fields) };
+    case 'csv':
+      return { fileName, content: formatSessionCsv(selected, options.fields) };
+    case 'srt':
+    case 'vtt':
+      return { fileName, content: formatSubtitles(selected.transcripts, options.format, options.subtitles) };
+    case 'json':
+    default:
+      return { fileName, content: formatSessionJson(selected) };
+  }
+}
@@ -0,0 +1,162 @@
+import { Transcript } from '../hooks/useRealtimeTranscription';
+import { Session, StoredSession, fromStoredSession, toStoredSession } from '../storage/sessionStorage';
+import { getLanguageLabel } from '../constants/languages';
+import { formatTimestamp } from './subtitles';
+import { findSpeaker } from '../utils/speakers';
+
+// Optional columns of the Markdown and CSV exports; the source text is always included
+export type ExportField = 'time' | 'offsets' | 'speaker' | 'language' | 'translations' | 'confidence';
+
+export const EXPORT_FIELDS: { value: ExportField; label: string }[] = [
+  { value: 'time', label: 'Time' },
+  { value: 'offsets', label: 'Offsets' },
+  { value: 'speaker', label: 'Speaker' },
+  { value: 'language', label: 'Language' },
+  { value: 'translations', label: 'Translations' },
+  { value: 'confidence', label: 'Confidence' },
+];
+
+const SESSION_EXPORT_FORMAT = 'babelscribe-session';
+// 2: the Language A/B pair became a list of session languages
+const SESSION_EXPORT_VERSION = 2;
+
+interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: StoredSession;
+}
+
+// Keep only segments recorded within [from, to]; either bound may be left open
+export const filterByDateRange = (session: Session, from?: Date, to?: Date): Session => ({
+  ...session,
+  transcripts: session.transcripts.filter(
+    (t) =>
+      (!from || t.timestamp.getTime() >= from.getTime()) &&
+      (!to || t.timestamp.getTime() <= to.getTime())
+  ),
+});
+
+// Average token probability, 0..1
+export const averageConfidence = (transcript: Transcript): number | undefined => {
+  const logprobs = transcript.logprobs;
+  if (!logprobs || logprobs.length === 0) {
+    return undefined;
+  }
+  const mean = logprobs.reduce((sum, { logprob }) => sum + logprob, 0) / logprobs.length;
+  return Math.exp(mean);
+};
+
+// The live list is newest first, readable exports go oldest first
+const chronological = (transcripts: Transcript[]) =>
+  [...transcripts].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+const translationLanguages = (transcripts: Transcript[]) =>
+  Array.from(new Set(transcripts.flatMap((t) => Object.keys(t.translations ?? {}))));
+
+// Lossless: everything needed to restore the session, including logprobs and translations
+export const formatSessionJson = (session: Session): string => {
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: toStoredSession(session),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseSessionJson = (raw: string): Session => {
+  const file: Partial<SessionExportFile> = JSON.parse(raw);
+  if (file?.format !== SESSION_EXPORT_FORMAT || !file.session || !Array.isArray(file.session.transcripts)) {
+    throw new Error('Not a BabelScribe session export.');
+  }
+  if ((file.version ?? 0) > SESSION_EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of BabelScribe.');
+  }
+  return fromStoredSession(file.session);
+};
+
+export const formatSessionMarkdown = (session: Session, fields: ExportField[]): string => {
+  const lines = [`# ${session.title}`, ''];
+  lines.push(
+    `Started ${session.startedAt.toLocaleString()} · ${session.languages.map((code) => code.toUpperCase()).join('/')} · ${session.model}`
+  );
+
+  // A new heading whenever the speaker changes, or the spoken language for unattributed segments
+  let currentHeading: string | null = null;
+  chronological(session.transcripts).forEach((transcript) => {
+    const heading =
+      findSpeaker(session.speakers, transcript.speaker)?.name ?? transcript.detectedLanguageName ?? 'Unknown';
+    if (heading !== currentHeading) {
+      lines.push('', `## ${heading}`);
+      currentHeading = heading;
+    }
+
+    const meta: string[] = [];
+    if (fields.includes('time')) {
+      meta.push(transcript.timestamp.toLocaleTimeString());
+    }
+    if (fields.includes('offsets') && transcript.startMs !== undefined) {
+      meta.push(formatTimestamp(transcript.startMs, 'vtt'));
+    }
+    if (fields.includes('language') && transcript.detectedLanguage) {
+      meta.push(transcript.detectedLanguage);
+    }
+    const confidence = averageConfidence(transcript);
+    if (fields.includes('confidence') && confidence !== undefined) {
+      meta.push(`${Math.round(confidence * 100)}%`);
+    }
+
+    lines.push('', meta.length > 0 ? `**${meta.join(' · ')}** ${transcript.text}` : transcript.text);
+
+    if (fields.includes('translations')) {
+      Object.entries(transcript.translations ?? {}).forEach(([code, translation]) => {
+        lines.push(`> ${getLanguageLabel(code)}: ${translation.text}`);
+      });
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatSessionCsv = (session: Session, fields: ExportField[]): string => {
+  const transcripts = chronological(session.transcripts);
+  const languages = fields.includes('translations') ? translationLanguages(transcripts) : [];
+
+  const header: string[] = [];
+  if (fields.includes('time')) header.push('timestamp');
+  if (fields.includes('offsets')) header.push('start_seconds', 'end_seconds');
+  if (fields.includes('speaker')) header.push('speaker');
+  if (fields.includes('language')) header.push('language', 'language_name');
+  if (fields.includes('confidence')) header.push('confidence');
+  header.push('text');
+  languages.forEach((code) => header.push(`translation_${code}`));
+
+  const rows = transcripts.map((transcript) => {
+    const row: (string | number | undefined)[] = [];
+    if (fields.includes('time')) row.push(transcript.timestamp.toISOString());
+    if (fields.includes('offsets')) {
+      row.push(
+        transcript.startMs !== undefined ? (transcript.startMs / 1000).toFixed(3) : undefined,
+        transcript.endMs !== undefined ? (transcript.endMs / 1000).toFixed(3) : undefined
+      );
+    }
+    if (fields.includes('speaker')) row.push(findSpeaker(session.speakers, transcript.speaker)?.name);
+    if (fields.includes('language')) row.push(transcript.detectedLanguage, transcript.detectedLanguageName);
+    if (fields.includes('confidence')) row.push(averageConfidence(transcript)?.toFixed(3));
+    row.push(transcript.text);
+    languages.forEach((code) => row.push(transcript.translations?.[code]?.text));
+    return row.map(csvCell).join(',');
+  });
+
+  // CRLF as RFC 4180 asks for, spreadsheets handle it everywhere
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,94 @@
+import { Transcript } from '../hooks/useRealtimeTranscription';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Which text goes into each cue
+export type SubtitleTextMode = 'source' | 'translation' | 'bilingual';
+
+export interface SubtitleOptions {
+  textMode: SubtitleTextMode;
+  translationLanguage?: string; // Required for 'translation' and 'bilingual'
+}
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+}
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat; label: string }[] = [
+  { value: 'srt', label: 'SubRip (.srt)' },
+  { value: 'vtt', label: 'WebVTT (.vtt)' },
+];
+
+export const SUBTITLE_TEXT_MODES: { value: SubtitleTextMode; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: 'translation', label: 'Translation' },
+  { value: 'bilingual', label: 'Bilingual' },
+];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 01:02:03,456 for SRT, 01:02:03.456 for WebVTT
+export const formatTimestamp = (ms: number, format: SubtitleFormat): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+const cueLines = (transcript: Transcript, options: SubtitleOptions): string[] => {
+  const translation = options.translationLanguage
+    ? transcript.translations?.[options.translationLanguage]?.text
+    : undefined;
+
+  switch (options.textMode) {
+    case 'translation':
+      return translation ? [translation] : [];
+    case 'bilingual':
+      return translation ? [transcript.text, translation] : [transcript.text];
+    default:
+      return [transcript.text];
+  }
+};
+
+// Segments recorded before timings were tracked have no offsets and are skipped
+const buildCues = (transcripts: Transcript[], options: SubtitleOptions): Cue[] =>
+  transcripts
+    .filter((t) => t.startMs !== undefined && t.endMs !== undefined)
+    .sort((a, b) => a.startMs! - b.startMs!)
+    .map((t) => ({
+      startMs: t.startMs!,
+      endMs: t.endMs!,
+      // A blank line would end the cue
+      lines: cueLines(t, options).map((line) => line.replace(/\s*\n\s*/g, ' ')),
+    }))
+    .filter((cue) => cue.lines.length > 0);
+
+export const formatSrt = (transcripts: Transcript[], options: SubtitleOptions): string =>
+  buildCues(transcripts, options)
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatTimestamp(cue.startMs, 'srt')} --> ${formatTimestamp(cue.endMs, 'srt')}`,
+        ...cue.lines,
+      ].join('\n')
+    )
+    .join('\n\n') + '\n';
+
+export const formatWebVtt = (transcripts: Transcript[], options: SubtitleOptions): string =>
+  ['WEBVTT', ...buildCues(transcripts, options).map((cue) =>
+    [
+      `${formatTimestamp(cue.startMs, 'vtt')} --> ${formatTimestamp(cue.endMs, 'vtt')}`,
+      // "-->" would end the cue text early
+      ...cue.lines.map((line) => line.replace(/-->/g, '->')),
+    ].join('\n')
+  )].join('\n\n') + '\n';
+
+export const formatSubtitles = (
+  transcripts: Transcript[],
+  format: SubtitleFormat,
+  options: SubtitleOptions
+): string => (format === 'srt' ? formatSrt(transcripts, options) : formatWebVtt(transcripts, options));
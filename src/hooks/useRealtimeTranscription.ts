@@ -1,9 +1,37 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { Platform } from 'react-native';
 import AudioRecord from 'react-native-audio-record';
 import { Buffer } from 'buffer';
-import { franc } from 'franc';
+import { SAMPLE_RATE, CHANNELS, BITS_PER_SAMPLE, encodeWav } from '../utils/wav';
+import { createRecordingFileName, readSegmentPcm } from '../utils/sessionAudio';
 import KeepAwake from 'react-native-keep-awake';
+import { VoiceActivityDetector, createVoiceActivityDetector } from '../utils/vad';
+import {
+  UNDETERMINED_LANGUAGE,
+  findLanguage,
+  findLanguageByFrancCode,
+  getLanguageLabel,
+  getLanguageNameFromFrancCode,
+} from '../constants/languages';
+import { DEFAULT_DETECTION_CONFIDENCE, detectLanguage } from '../utils/languageDetection';
+import { Speaker, findSpeaker, speakerForLanguage } from '../utils/speakers';
+import { UsageEvent } from '../utils/usage';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderSettings,
+  createRealtimeTokenSource,
+  TranscriptionResult,
+  TurnDetection,
+  MANUAL_TURN_DETECTION,
+  createTranscriptionProvider,
+  transcribeRecording,
+} from '../providers/transcription';
+import {
+  TranslationBackend,
+  TranslationContextEntry,
+  TranslationProviderSettings,
+  createTranslationProvider,
+} from '../providers/translation';
 
 export interface TokenLogprob {
   token: string;
@@ -11,37 +39,164 @@ export interface TokenLogprob {
   bytes?: number[] | null;
 }
 
+export interface TranscriptTranslation {
+  text: string;
+  provider: TranslationBackend;
+  createdAt: Date;
+}
+
+// The same segment transcribed again with another model
+export interface TranscriptAlternative {
+  model: string;
+  text: string;
+  logprobs?: TokenLogprob[];
+  createdAt: Date;
+}
+
+// Where a segment's audio sits in the session recording
+export interface TranscriptAudio {
+  fileName: string; // Recording in the documents directory, one per start/stop of the microphone
+  startByte: number; // Range within the recording's PCM data
+  endByte: number;
+}
+
 export interface Transcript {
   id: string;
   timestamp: Date;
-  text: string;
-  originalText?: string; // Store original text for multiple translations
+  text: string; // Source text as transcribed, never overwritten
+  translations?: Record<string, TranscriptTranslation>; // Keyed by ISO 639-1 target language code
   detectedLanguage?: string; // ISO language code detected by franc
   detectedLanguageName?: string; // Human readable language name
+  languageSource?: LanguageSource;
+  languageConfidence?: number; // Detection margin, see detectLanguage
+  speaker?: string; // Id of one of the session's speakers
   logprobs?: TokenLogprob[]; // Token-level confidence scores
+  model?: string; // Model that produced text and logprobs
+  alternatives?: TranscriptAlternative[]; // Re-transcriptions, one per model
+  startMs?: number; // Offset of the segment's first audio chunk from session start
+  endMs?: number; // Offset at which the segment was committed
+  audio?: TranscriptAudio;
+}
+
+interface SegmentTiming {
+  startMs: number;
+  endMs: number;
+  audio?: TranscriptAudio;
 }
 
+// How detectedLanguage was decided: franc, the previous segment (franc was unsure) or the user
+export type LanguageSource = 'detected' | 'previous' | 'manual';
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+// What ends a segment: the 10s auto-commit timer, the backend's VAD, or the on-device VAD
+export type SegmentationMode = 'timer' | 'server' | 'device';
+
+// Reconnection backoff: 1s, 2s, 4s ... capped at 30s, giving up after 8 attempts
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Audio kept while the socket is down (~5 minutes of 100ms chunks)
+const MAX_BUFFERED_AUDIO_CHUNKS = 3000;
+// On-device VAD still commits during long monologues (~30s of 100ms chunks)
+const MAX_DEVICE_VAD_SEGMENT_CHUNKS = 300;
+// Streamed audio is reported as usage in batches of this many seconds, and when recording stops
+const USAGE_REPORT_INTERVAL_SECONDS = 10;
+
+const pcmSeconds = (byteLength: number) =>
+  byteLength / (CHANNELS * (BITS_PER_SAMPLE / 8)) / SAMPLE_RATE;
+
+// Configure audio with optimized settings for higher volume
+const AUDIO_RECORD_OPTIONS = {
+  sampleRate: SAMPLE_RATE,
+  channels: CHANNELS,
+  bitsPerSample: BITS_PER_SAMPLE,
+  audioSource: 1, // MIC (1) - Raw microphone input, often higher gain than VOICE_RECOGNITION (6)
+  // Alternative sources to try if still too quiet:
+  // audioSource: 7, // VOICE_COMMUNICATION - optimized for VoIP
+  // audioSource: 5, // CAMCORDER - tuned for video recording
+  // audioSource: 0, // DEFAULT - system default
+};
+
 interface Options {
   language?: string; // ISO code matching OpenAI language param - optional for auto-detection
+  prompt?: string; // Transcription prompt with context and custom vocabulary
   apiKey: string;
   model: string;
-  languageA?: string; // Language A for auto-translation
-  languageB?: string; // Language B for auto-translation
+  transcriptionBackend?: Omit<TranscriptionProviderSettings, 'apiKey'>; // Defaults to OpenAI Realtime
+  translationBackend?: Omit<TranslationProviderSettings, 'apiKey'>; // Defaults to OpenAI chat
+  turnDetection?: TurnDetection; // Defaults to manual commits on the auto-commit timer
+  languages?: string[]; // Session languages; each segment is auto-translated into all the others
+  detectionLanguages?: string[]; // Further languages detection may pick, without auto-translation
+  detectionConfidence?: number; // Below this margin the previous segment's language is used
+  translationContextSize?: number; // Earlier segments sent along with each translation, 0 for none
+  onAutoTranslated?: (transcriptId: string, targetLangCode: string, translatedText: string) => void;
+  speakers?: Speaker[]; // New segments are attributed by language when unambiguous
+  currentSpeakerId?: string | null; // Set by hand ("next speaker"); wins over the language
+  autoTranslationEnabled?: boolean; // Defaults to true
+  onUsage?: (event: UsageEvent) => void; // Billable audio seconds and chat tokens, for cost estimates
 }
 
-export default function useRealtimeTranscription({ language, apiKey, model, languageA, languageB }: Options) {
+export default function useRealtimeTranscription({
+  language,
+  prompt,
+  apiKey,
+  model,
+  transcriptionBackend,
+  translationBackend,
+  turnDetection = MANUAL_TURN_DETECTION,
+  languages,
+  detectionLanguages,
+  detectionConfidence = DEFAULT_DETECTION_CONFIDENCE,
+  translationContextSize = 0,
+  onAutoTranslated,
+  speakers,
+  currentSpeakerId,
+  autoTranslationEnabled = true,
+  onUsage,
+}: Options) {
   const [finalTranscripts, setFinalTranscripts] = useState<Transcript[]>([]);
   const [interimTranscript, setInterimTranscript] = useState('');
   const [isRecording, setRecording] = useState(false);
   const [volume, setVolume] = useState(0);
   const [hasSentAudio, setHasSentAudio] = useState(false);
   const [autoCommitCountdown, setAutoCommitCountdown] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
+  const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>('timer');
+  const [isSpeaking, setSpeaking] = useState(false);
+  // Translations still streaming in, by `${transcriptId}:${language}`; kept out of finalTranscripts
+  // so the session is not saved for every token
+  const [partialTranslations, setPartialTranslations] = useState<Record<string, string>>({});
+  const providerRef = useRef<TranscriptionProvider | null>(null);
   const commitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const countdownIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastResetTimeRef = useRef<number>(0);
   const audioChunksSinceLastCommit = useRef<number>(0);
   const isRecordingRef = useRef<boolean>(false);
+  const reconnectAttemptRef = useRef<number>(0);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const shouldReconnectRef = useRef<boolean>(false);
+  const pendingAudioRef = useRef<string[]>([]); // Chunks captured while the socket was down
+  const segmentationModeRef = useRef<SegmentationMode>('timer'); // Auto-commit timer only runs in 'timer' mode
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const audioClockMsRef = useRef<number>(0); // Recorded audio since session start
+  const segmentStartMsRef = useRef<number | null>(null); // Clock at the first chunk after the last commit
+  const committedSegmentsRef = useRef(new Map<string, SegmentTiming>()); // By commit id, awaiting their transcript
+  const recordingFileNameRef = useRef<string | null>(null); // WAV file of the current start/stop run
+  const recordingBytesRef = useRef<number>(0); // PCM bytes captured in the current run
+  const segmentStartByteRef = useRef<number | null>(null);
+  const lastLanguageRef = useRef<string | null>(null); // franc code of the newest segment
+  const capturePausedRef = useRef(false); // Microphone audio is replaced by silence, e.g. during playback
+  const finalTranscriptsRef = useRef<Transcript[]>([]); // Newest first, like finalTranscripts
+  const translationControllersRef = useRef(new Map<string, AbortController>()); // By `${transcriptId}:${language}`
+  const autoTranslateTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>()); // Same keys
+  // Read by the transcription callbacks, which live as long as the connection
+  const languageSettingsRef = useRef({ languages, detectionLanguages, detectionConfidence });
+  const speakerSettingsRef = useRef({ speakers: speakers ?? [], currentSpeakerId });
+  // Only the OpenAI backend bills streamed audio
+  const billsAudio = (transcriptionBackend?.backend ?? 'openai-realtime') === 'openai-realtime';
+  const usageSettingsRef = useRef({ onUsage, model, billsAudio });
+  const unreportedAudioSecondsRef = useRef<number>(0);
   // Helper to log with consistent prefix
   const log = (...args: any[]) => console.log('[Realtime]', ...args);
   
@@ -56,220 +211,209 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
     log('===========================');
   };
 
-  // Helper to convert ISO language codes to readable names
-  const getLanguageName = useCallback((isoCode: string): string => {
-    const languageNames: { [key: string]: string } = {
-      'eng': 'English',
-      'spa': 'Spanish',
-      'fra': 'French',
-      'deu': 'German',
-      'ita': 'Italian',
-      'por': 'Portuguese',
-      'rus': 'Russian',
-      'jpn': 'Japanese',
-      'kor': 'Korean',
-      'cmn': 'Chinese',
-      'ara': 'Arabic',
-      'hin': 'Hindi',
-      'nld': 'Dutch',
-      'swe': 'Swedish',
-      'nor': 'Norwegian',
-      'dan': 'Danish',
-      'fin': 'Finnish',
-      'pol': 'Polish',
-      'ces': 'Czech',
-      'hun': 'Hungarian',
-      'ron': 'Romanian',
-      'bul': 'Bulgarian',
-      'hrv': 'Croatian',
-      'slk': 'Slovak',
-      'slv': 'Slovenian',
-      'est': 'Estonian',
-      'lav': 'Latvian',
-      'lit': 'Lithuanian',
-      'ell': 'Greek',
-      'tur': 'Turkish',
-      'heb': 'Hebrew',
-      'tha': 'Thai',
-      'vie': 'Vietnamese',
-      'ind': 'Indonesian',
-      'msa': 'Malay',
-      'tgl': 'Filipino',
-      'ukr': 'Ukrainian',
-      'cat': 'Catalan',
-      'eus': 'Basque',
-      'glg': 'Galician',
-      'und': 'Unknown'
-    };
-    return languageNames[isoCode] || isoCode.toUpperCase();
-  }, []);
+  // One per token broker, so reconnects reuse its secret and it is refreshed while recording
+  const realtimeTokenUrl = transcriptionBackend?.openAIConnection?.realtimeTokenUrl?.trim();
+  const realtimeTokenSource = useMemo(
+    () => (realtimeTokenUrl ? createRealtimeTokenSource({ brokerUrl: realtimeTokenUrl }) : undefined),
+    [realtimeTokenUrl]
+  );
 
-  // Helper to map franc language codes to our language selector codes
-  const mapToLanguageCode = useCallback((francCode: string): string | null => {
-    const mapping: { [key: string]: string } = {
-      'eng': 'en',
-      'spa': 'es', 
-      'fra': 'fr',
-      'deu': 'de',
-      'ita': 'it',
-      'por': 'pt',
-      'rus': 'ru',
-      'jpn': 'ja',
-      'kor': 'ko',
-      'cmn': 'zh',
-      'ara': 'ar',
-      'hin': 'hi',
-      'nld': 'nl',
-      'swe': 'sv',
-      'nor': 'no',
-      'dan': 'da',
-      'fin': 'fi',
-      'pol': 'pl',
-      'ces': 'cs',
-      'hun': 'hu',
-      'ron': 'ro',
-      'bul': 'bg',
-      'hrv': 'hr',
-      'slk': 'sk',
-      'slv': 'sl',
-      'est': 'et',
-      'lav': 'lv',
-      'lit': 'lt',
-      'ell': 'el',
-      'tur': 'tr',
-      'heb': 'he',
-      'tha': 'th',
-      'vie': 'vi',
-      'ind': 'id',
-      'msa': 'ms',
-      'tgl': 'tl',
-      'ukr': 'uk',
-      'cat': 'ca',
-      'eus': 'eu',
-      'glg': 'gl'
-    };
-    return mapping[francCode] || null;
-  }, []);
+  useEffect(() => () => realtimeTokenSource?.stop(), [realtimeTokenSource]);
 
-  // Helper to get language name from language code
-  const getLanguageNameFromCode = useCallback((langCode: string): string => {
-    const codeToName: { [key: string]: string } = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'ru': 'Russian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese',
-      'ar': 'Arabic',
-      'hi': 'Hindi',
-      'nl': 'Dutch',
-      'sv': 'Swedish',
-      'no': 'Norwegian',
-      'da': 'Danish',
-      'fi': 'Finnish',
-      'pl': 'Polish',
-      'cs': 'Czech',
-      'hu': 'Hungarian',
-      'ro': 'Romanian',
-      'bg': 'Bulgarian',
-      'hr': 'Croatian',
-      'sk': 'Slovak',
-      'sl': 'Slovenian',
-      'et': 'Estonian',
-      'lv': 'Latvian',
-      'lt': 'Lithuanian',
-      'el': 'Greek',
-      'tr': 'Turkish',
-      'he': 'Hebrew',
-      'th': 'Thai',
-      'vi': 'Vietnamese',
-      'id': 'Indonesian',
-      'ms': 'Malay',
-      'tl': 'Filipino',
-      'uk': 'Ukrainian',
-      'ca': 'Catalan',
-      'eu': 'Basque',
-      'gl': 'Galician'
-    };
-    return codeToName[langCode] || langCode.toUpperCase();
+  const translationProvider = useMemo(
+    () => createTranslationProvider({ backend: 'openai-chat', ...translationBackend, apiKey }),
+    [apiKey, translationBackend]
+  );
+
+  // Store a translation next to the source text, replacing an older one for the same language
+  const addTranslation = useCallback((transcriptId: string, targetLangCode: string, translatedText: string) => {
+    setFinalTranscripts((prev) =>
+      prev.map((item) =>
+        item.id === transcriptId
+          ? {
+              ...item,
+              translations: {
+                ...item.translations,
+                [targetLangCode]: {
+                  text: translatedText,
+                  provider: translationProvider.backend,
+                  createdAt: new Date(),
+                },
+              },
+            }
+          : item
+      )
+    );
+  }, [translationProvider]);
+
+  // Text of a translation that is still streaming in; undefined removes it
+  const setPartialTranslation = useCallback((key: string, text?: string) => {
+    setPartialTranslations((prev) => {
+      if (text !== undefined) return { ...prev, [key]: text };
+      if (!(key in prev)) return prev;
+      return Object.fromEntries(Object.entries(prev).filter(([partialKey]) => partialKey !== key));
+    });
   }, []);
 
+  // Abort running and scheduled translations of one transcript, or of all when no id is given
+  const cancelTranslations = useCallback((transcriptId?: string) => {
+    const matches = (key: string) => !transcriptId || key.startsWith(`${transcriptId}:`);
+    autoTranslateTimeoutsRef.current.forEach((timeout, key) => {
+      if (matches(key)) {
+        clearTimeout(timeout);
+        autoTranslateTimeoutsRef.current.delete(key);
+      }
+    });
+    translationControllersRef.current.forEach((controller, key) => {
+      if (matches(key)) {
+        controller.abort();
+        translationControllersRef.current.delete(key);
+        setPartialTranslation(key);
+      }
+    });
+  }, [setPartialTranslation]);
+
+  // The segments spoken before this one, oldest first, with their translations into the target language
+  const buildTranslationContext = useCallback(
+    (transcriptId: string, targetLangCode: string): TranslationContextEntry[] => {
+      if (translationContextSize <= 0) return [];
+      const transcripts = finalTranscriptsRef.current;
+      const index = transcripts.findIndex((t) => t.id === transcriptId);
+      return transcripts
+        .slice(index + 1, index + 1 + translationContextSize)
+        .reverse()
+        .map((t) => ({ text: t.text, translation: t.translations?.[targetLangCode]?.text }));
+    },
+    [translationContextSize]
+  );
+
+  // Translate and show the text as it streams in. Resolves with null when cancelled.
+  const streamTranslation = useCallback(
+    async (transcriptId: string, transcriptText: string, targetLangCode: string, targetLangName: string) => {
+      const key = `${transcriptId}:${targetLangCode}`;
+      translationControllersRef.current.get(key)?.abort();
+      const controller = new AbortController();
+      translationControllersRef.current.set(key, controller);
+
+      try {
+        const translatedText = await translationProvider.translate({
+          text: transcriptText,
+          targetLanguageCode: targetLangCode,
+          targetLanguageName: targetLangName,
+          signal: controller.signal,
+          context: buildTranslationContext(transcriptId, targetLangCode),
+          onUsage: (usage) => usageSettingsRef.current.onUsage?.({ kind: 'tokens', ...usage }),
+          // Only shown; the session is saved once the translation is complete
+          onPartial: (partial) => {
+            if (controller.signal.aborted) return;
+            setPartialTranslation(key, partial);
+          },
+        });
+        if (controller.signal.aborted) return null;
+        if (translatedText) {
+          addTranslation(transcriptId, targetLangCode, translatedText);
+        }
+        return translatedText;
+      } catch (error) {
+        if (controller.signal.aborted) return null;
+        throw error;
+      } finally {
+        if (translationControllersRef.current.get(key) === controller) {
+          translationControllersRef.current.delete(key);
+          setPartialTranslation(key);
+        }
+      }
+    },
+    [translationProvider, addTranslation, setPartialTranslation, buildTranslationContext]
+  );
+
   // Helper to perform automatic translation
   const performAutoTranslation = useCallback(async (transcriptId: string, transcriptText: string, targetLangCode: string, targetLangName: string) => {
-    if (!apiKey) {
-      log('Auto-translation failed: No API key');
-      return;
-    }
-    
     try {
       log(`Auto-translating to ${targetLangName}...`);
       log('Text to translate:', transcriptText);
-      
-      const systemPrompt = `You are a helpful assistant. Translate the following text accurately to ${targetLangName}. Output only the translated text.`;
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: transcriptText },
-      ];
-
-      log('Making auto-translation API call...');
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: messages,
-          temperature: 0.3,
-        }),
-      });
 
-      log('Auto-translation API response status:', response.status);
-      
-      if (!response.ok) {
-        const errText = await response.text();
-        log(`Auto-translation API error: ${response.status}`, errText);
-        return;
-      }
+      const translatedText = await streamTranslation(transcriptId, transcriptText, targetLangCode, targetLangName);
+      log('Auto-translation response:', translatedText);
 
-      const data = await response.json();
-      const translatedText = data.choices?.[0]?.message?.content?.trim() || '';
-      log('Auto-translation API response:', translatedText);
-
-      if (translatedText) {
-        log('Updating transcript with auto-translation...');
-        setFinalTranscripts((prev) =>
-          prev.map((item) =>
-            item.id === transcriptId
-              ? { 
-                  ...item, 
-                  text: `${translatedText} (${targetLangName})`,
-                  originalText: item.originalText || item.text,
-                  // Preserve logprobs from original transcription
-                  logprobs: item.logprobs
-                }
-              : item
-          )
-        );
+      if (translatedText === null) {
+        log('Auto-translation cancelled');
+      } else if (translatedText) {
         log(`Auto-translation completed: ${transcriptText} -> ${translatedText}`);
+        onAutoTranslated?.(transcriptId, targetLangCode, translatedText);
       } else {
         log('Auto-translation failed: Empty response');
       }
     } catch (error) {
       log('Auto-translation failed with error:', error);
     }
-  }, [apiKey]);
+  }, [streamTranslation, onAutoTranslated]);
+
+  // Translate into every other session language
+  const autoTranslate = useCallback(
+    (transcriptId: string, text: string, sourceLangCode: string | null) => {
+      if (!autoTranslationEnabled) {
+        log('No auto-translation: turned off');
+        return;
+      }
+      const sessionLanguages = languageSettingsRef.current.languages ?? [];
+      if (!sourceLangCode || !sessionLanguages.includes(sourceLangCode)) {
+        log('No auto-translation: detected language', sourceLangCode, 'is not one of the session languages', sessionLanguages);
+        return;
+      }
+
+      sessionLanguages
+        .filter((targetLangCode) => targetLangCode !== sourceLangCode)
+        .forEach((targetLangCode) => {
+          const targetLangName = getLanguageLabel(targetLangCode);
+          log(`Auto-translating from ${getLanguageLabel(sourceLangCode)} to ${targetLangName}`);
+          const key = `${transcriptId}:${targetLangCode}`;
+          const timeout = setTimeout(() => {
+            autoTranslateTimeoutsRef.current.delete(key);
+            performAutoTranslation(transcriptId, text, targetLangCode, targetLangName);
+          }, 500);
+          autoTranslateTimeoutsRef.current.set(key, timeout);
+        });
+    },
+    [performAutoTranslation, autoTranslationEnabled]
+  );
+  const autoTranslateRef = useRef(autoTranslate);
+
+  useEffect(() => {
+    languageSettingsRef.current = { languages, detectionLanguages, detectionConfidence };
+    autoTranslateRef.current = autoTranslate;
+  }, [languages, detectionLanguages, detectionConfidence, autoTranslate]);
+
+  useEffect(() => {
+    speakerSettingsRef.current = { speakers: speakers ?? [], currentSpeakerId };
+  }, [speakers, currentSpeakerId]);
+
+  useEffect(() => {
+    usageSettingsRef.current = { onUsage, model, billsAudio };
+  }, [onUsage, model, billsAudio]);
+
+  // Count audio sent to the backend, reporting it once enough has been collected or when forced
+  const addAudioUsage = useCallback((seconds: number, force = false) => {
+    const { onUsage: report, model: usageModel, billsAudio: billed } = usageSettingsRef.current;
+    if (!billed) return;
+    unreportedAudioSecondsRef.current += seconds;
+    if (force || unreportedAudioSecondsRef.current >= USAGE_REPORT_INTERVAL_SECONDS) {
+      if (unreportedAudioSecondsRef.current > 0) {
+        report?.({ kind: 'audio', model: usageModel, seconds: unreportedAudioSecondsRef.current });
+      }
+      unreportedAudioSecondsRef.current = 0;
+    }
+  }, []);
 
   // Update ref when isRecording changes
   useEffect(() => {
     isRecordingRef.current = isRecording;
   }, [isRecording]);
 
+  useEffect(() => {
+    finalTranscriptsRef.current = finalTranscripts;
+  }, [finalTranscripts]);
+
   const clearCountdown = useCallback(() => {
     if (countdownIntervalRef.current) {
       clearInterval(countdownIntervalRef.current);
@@ -278,7 +422,39 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
     setAutoCommitCountdown(0);
   }, []);
 
+  // Remember the audio span of a committed segment so its transcript can carry the timing
+  const markSegmentEnd = useCallback((commitId: string) => {
+    if (segmentStartMsRef.current === null) return;
+    committedSegmentsRef.current.set(commitId, {
+      startMs: segmentStartMsRef.current,
+      endMs: audioClockMsRef.current,
+      audio:
+        recordingFileNameRef.current && segmentStartByteRef.current !== null
+          ? {
+              fileName: recordingFileNameRef.current,
+              startByte: segmentStartByteRef.current,
+              endByte: recordingBytesRef.current,
+            }
+          : undefined,
+    });
+    segmentStartMsRef.current = null;
+    segmentStartByteRef.current = null;
+  }, []);
+
+  // Every start of the microphone records into a new WAV file
+  const startCapture = useCallback(() => {
+    const fileName = createRecordingFileName();
+    AudioRecord.init({ ...AUDIO_RECORD_OPTIONS, wavFile: fileName });
+    recordingFileNameRef.current = fileName;
+    recordingBytesRef.current = 0;
+    segmentStartByteRef.current = null;
+    AudioRecord.start();
+    log('Recording session audio to', fileName);
+  }, []);
+
   const startAutoCommitTimer = useCallback(() => {
+    // VAD decides when a turn ends
+    if (segmentationModeRef.current !== 'timer') return;
     if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
     
     // Only restart countdown if not already running
@@ -298,18 +474,18 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
     commitTimeoutRef.current = setTimeout(() => {
       log('Auto-committing due to 10s of no audio...');
       // Inline commit logic to avoid circular dependency
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
+      if (providerRef.current?.isOpen()) {
         const MIN_CHUNKS_FOR_100MS = 1;
         if (audioChunksSinceLastCommit.current >= MIN_CHUNKS_FOR_100MS) {
           log(`Committing audio buffer with ${audioChunksSinceLastCommit.current} chunks...`);
-          wsRef.current.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+          markSegmentEnd(providerRef.current.commit());
           audioChunksSinceLastCommit.current = 0;
           setHasSentAudio(false);
         } else {
           log(`Skipping auto-commit: only ${audioChunksSinceLastCommit.current} chunks (need at least ${MIN_CHUNKS_FOR_100MS} for 100ms)`);
         }
       } else {
-        log('WebSocket not open, cannot commit.');
+        log('Transcription backend not connected, cannot commit.');
       }
       
       // Clear timers
@@ -329,22 +505,22 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
         }, 100);
       }
     }, 10000);
-  }, [clearCountdown]);
+  }, [clearCountdown, markSegmentEnd]);
 
   const commit = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    if (providerRef.current?.isOpen()) {
       // Ensure we have at least 1 chunk (100ms of audio) before committing
       const MIN_CHUNKS_FOR_100MS = 1;
       if (audioChunksSinceLastCommit.current >= MIN_CHUNKS_FOR_100MS) {
         log(`Committing audio buffer with ${audioChunksSinceLastCommit.current} chunks...`);
-        wsRef.current.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+        markSegmentEnd(providerRef.current.commit());
         audioChunksSinceLastCommit.current = 0; // Reset chunk counter after commit
         setHasSentAudio(false); // Reset flag after commit
       } else {
         log(`Skipping commit: only ${audioChunksSinceLastCommit.current} chunks (need at least ${MIN_CHUNKS_FOR_100MS} for 100ms)`);
       }
     } else {
-      log('WebSocket not open, cannot commit.');
+      log('Transcription backend not connected, cannot commit.');
     }
     // Clear any pending timer and countdown
     if (commitTimeoutRef.current) {
@@ -352,9 +528,10 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
       commitTimeoutRef.current = null;
     }
     clearCountdown();
-  }, [clearCountdown]);
+  }, [clearCountdown, markSegmentEnd]);
 
   const resetAutoCommitTimer = useCallback(() => {
+    if (segmentationModeRef.current !== 'timer') return;
     // Clear existing timers
     if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
     clearCountdown();
@@ -374,18 +551,18 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
     commitTimeoutRef.current = setTimeout(() => {
       log('Auto-committing due to 10s of no audio...');
       // Inline commit logic to avoid circular dependency
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
+      if (providerRef.current?.isOpen()) {
         const MIN_CHUNKS_FOR_100MS = 1;
         if (audioChunksSinceLastCommit.current >= MIN_CHUNKS_FOR_100MS) {
           log(`Committing audio buffer with ${audioChunksSinceLastCommit.current} chunks...`);
-          wsRef.current.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+          markSegmentEnd(providerRef.current.commit());
           audioChunksSinceLastCommit.current = 0;
           setHasSentAudio(false);
         } else {
           log(`Skipping auto-commit: only ${audioChunksSinceLastCommit.current} chunks (need at least ${MIN_CHUNKS_FOR_100MS} for 100ms)`);
         }
       } else {
-        log('WebSocket not open, cannot commit.');
+        log('Transcription backend not connected, cannot commit.');
       }
       
       // Clear timers
@@ -405,76 +582,163 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
         }, 100);
       }
     }, 10000);
-  }, [clearCountdown, startAutoCommitTimer]);
+  }, [clearCountdown, startAutoCommitTimer, markSegmentEnd]);
 
   const translateTranscript = useCallback(
-    async (transcriptId: string, targetLangName: string) => {
-      if (!apiKey) {
-        log('Translation failed: API key is not set.');
-        throw new Error('API key is not set.');
+    async (transcriptId: string, targetLangCode: string, targetLangName: string) => {
+      const transcript = finalTranscripts.find((t) => t.id === transcriptId);
+      if (!transcript) {
+        throw new Error('Transcript not found.');
       }
 
+      log('Translating...');
+      const translatedText = await streamTranslation(transcriptId, transcript.text, targetLangCode, targetLangName);
+      return translatedText ?? '';
+    },
+    [finalTranscripts, streamTranslation]
+  );
+
+  // Send a segment's recorded audio to another model; the result is kept next to the original
+  const retranscribeTranscript = useCallback(
+    async (transcriptId: string, targetModel: string) => {
       const transcript = finalTranscripts.find((t) => t.id === transcriptId);
       if (!transcript) {
         throw new Error('Transcript not found.');
       }
+      if (!transcript.audio) {
+        throw new Error('No recording is available for this segment.');
+      }
 
-      // Use original text if available, otherwise use current text
-      const textToTranslate = transcript.originalText || transcript.text;
-      const systemPrompt = `You are a helpful assistant. Translate the following text accurately to ${targetLangName}. Output only the translated text.`;
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: textToTranslate },
-      ];
-
-      log('Translating with fetch...');
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: messages,
-          temperature: 0.3,
-        }),
-      });
+      log(`Re-transcribing segment with ${targetModel}...`);
+      const pcm = await readSegmentPcm(transcript.audio);
+      const result = await transcribeRecording(
+        { backend: 'openai-realtime', ...transcriptionBackend, apiKey },
+        encodeWav(pcm),
+        { model: targetModel, language, prompt }
+      );
+      if (billsAudio) {
+        onUsage?.({ kind: 'audio', model: targetModel, seconds: pcmSeconds(pcm.length) });
+      }
 
-      if (!response.ok) {
-        const errText = await response.text();
-        log(`Translation API error: ${response.status}`, errText);
-        throw new Error(`OpenAI API error: ${response.status} ${errText}`);
-      }
-
-      const data = await response.json();
-      const translatedText = data.choices?.[0]?.message?.content?.trim() || '';
-
-      if (translatedText) {
-        setFinalTranscripts((prev) =>
-          prev.map((item) =>
-            item.id === transcriptId
-              ? { 
-                  ...item, 
-                  text: `${translatedText} (${targetLangName})`,
-                  originalText: item.originalText || item.text // Store original if not already stored
-                }
-              : item
-          )
-        );
+      const alternative: TranscriptAlternative = {
+        model: targetModel,
+        text: result.transcript.trim(),
+        logprobs: result.logprobs,
+        createdAt: new Date(),
+      };
+      setFinalTranscripts((prev) =>
+        prev.map((item) =>
+          item.id === transcriptId
+            ? {
+                ...item,
+                alternatives: [
+                  ...(item.alternatives ?? []).filter((a) => a.model !== targetModel),
+                  alternative,
+                ],
+              }
+            : item
+        )
+      );
+      return alternative;
+    },
+    [finalTranscripts, transcriptionBackend, apiKey, language, prompt, billsAudio, onUsage]
+  );
+
+  // Make a re-transcription the segment's text; the current text becomes an alternative
+  const promoteAlternative = useCallback((transcriptId: string, alternativeModel: string) => {
+    setFinalTranscripts((prev) =>
+      prev.map((item) => {
+        const alternative = item.alternatives?.find((a) => a.model === alternativeModel);
+        if (item.id !== transcriptId || !alternative) {
+          return item;
+        }
+        const previous: TranscriptAlternative = {
+          model: item.model ?? 'original',
+          text: item.text,
+          logprobs: item.logprobs,
+          createdAt: item.timestamp,
+        };
+        return {
+          ...item,
+          text: alternative.text,
+          logprobs: alternative.logprobs,
+          model: alternative.model,
+          alternatives: [
+            ...item.alternatives!.filter((a) => a !== alternative && a.model !== previous.model),
+            previous,
+          ],
+          translations: undefined, // They were made from the old text
+        };
+      })
+    );
+  }, []);
+
+  // Correct the language of a segment by hand and redo its auto-translation
+  const setTranscriptLanguage = useCallback(
+    (transcriptId: string, languageCode: string) => {
+      const language = findLanguage(languageCode);
+      const transcript = finalTranscripts.find((t) => t.id === transcriptId);
+      if (!language || !transcript) return;
+
+      setFinalTranscripts((prev) =>
+        prev.map((item) =>
+          item.id === transcriptId
+            ? {
+                ...item,
+                detectedLanguage: language.iso6393,
+                detectedLanguageName: language.name,
+                languageSource: 'manual',
+                languageConfidence: undefined,
+                // A "translation" into the segment's own language is meaningless now
+                translations: item.translations
+                  ? Object.fromEntries(
+                      Object.entries(item.translations).filter(([code]) => code !== languageCode)
+                    )
+                  : undefined,
+              }
+            : item
+        )
+      );
+      if (finalTranscripts[0]?.id === transcriptId) {
+        lastLanguageRef.current = language.iso6393;
       }
-      return translatedText;
+      autoTranslate(transcriptId, transcript.text, language.iso6391);
     },
-    [apiKey, finalTranscripts]
+    [finalTranscripts, autoTranslate]
   );
 
+  const setTranscriptSpeaker = useCallback((transcriptId: string, speakerId?: string) => {
+    setFinalTranscripts((prev) =>
+      prev.map((item) => (item.id === transcriptId ? { ...item, speaker: speakerId } : item))
+    );
+  }, []);
+
+  // Stop transcribing what the microphone hears, e.g. while translations are read aloud
+  const setCapturePaused = useCallback((paused: boolean) => {
+    capturePausedRef.current = paused;
+  }, []);
+
   const deleteTranscript = useCallback((transcriptId: string) => {
+    cancelTranslations(transcriptId);
     setFinalTranscripts((prev) => prev.filter(t => t.id !== transcriptId));
-  }, []);
+  }, [cancelTranslations]);
 
   const clearAllTranscripts = useCallback(() => {
+    cancelTranslations();
     setFinalTranscripts([]);
-  }, []);
+  }, [cancelTranslations]);
+
+  // Swap in the transcripts of another session (e.g. when reopening one from history)
+  const replaceTranscripts = useCallback((transcripts: Transcript[]) => {
+    cancelTranslations();
+    setFinalTranscripts(transcripts);
+    setInterimTranscript('');
+    lastLanguageRef.current = transcripts[0]?.detectedLanguage ?? null;
+    // New audio continues after the last segment of the session
+    audioClockMsRef.current = Math.max(0, ...transcripts.map((t) => t.endMs ?? 0));
+    segmentStartMsRef.current = null;
+    committedSegmentsRef.current.clear();
+  }, [cancelTranslations]);
 
   const manualCommit = useCallback(() => {
     if (isRecordingRef.current) {
@@ -492,22 +756,27 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
   const stopRecording = useCallback(() => {
     if (!isRecording) return;
     log('Stopping audio capture. Committing...');
-    AudioRecord.stop();
+    AudioRecord.stop()
+      .then((path) => log('Session audio saved to', path))
+      .catch((error) => console.error('Failed to save session audio:', error));
     setRecording(false);
+    setSpeaking(false);
     
     // Deactivate keep awake when stopping recording
     KeepAwake.deactivate();
     log('Keep awake deactivated - device can sleep again');
     
     commit(); // This also clears the auto-commit timer
-  }, [isRecording, commit]);
+    addAudioUsage(0, true);
+    realtimeTokenSource?.stop();
+  }, [isRecording, commit, addAudioUsage, realtimeTokenSource]);
 
   const startRecording = useCallback(async () => {
     if (isRecording) return;
 
     // If we have a live connection, just start recording audio again.
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      log('Resuming audio capture on existing WebSocket connection.');
+    if (providerRef.current?.isOpen()) {
+      log('Resuming audio capture on existing transcription connection.');
       setHasSentAudio(false); // Reset for the new utterance
       setRecording(true);
       
@@ -515,240 +784,165 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
       KeepAwake.activate();
       log('Keep awake activated - device will not sleep during recording');
       
-      AudioRecord.start();
+      startCapture();
       startAutoCommitTimer();
+      realtimeTokenSource?.start();
       return;
     }
 
-    // New session, clear old transcripts.
+    // New connection - transcripts belong to the session chosen by the caller, keep them.
     log('Starting new recording session...');
     debugLogprobs(); // Show debug info for logprobs tracking
-    setFinalTranscripts([]);
     setInterimTranscript('');
     setHasSentAudio(false); // Reset for the new session
 
-    const sampleRate = 16000;
-
-    // Configure audio with optimized settings for higher volume
-    AudioRecord.init({
-      sampleRate,
-      channels: 1,
-      bitsPerSample: 16,
-      audioSource: 1, // MIC (1) - Raw microphone input, often higher gain than VOICE_RECOGNITION (6)
-      // Alternative sources to try if still too quiet:
-      // audioSource: 7, // VOICE_COMMUNICATION - optimized for VoIP
-      // audioSource: 5, // CAMCORDER - tuned for video recording
-      // audioSource: 0, // DEFAULT - system default
-      wavFile: '',
-    });
+    pendingAudioRef.current = [];
+    committedSegmentsRef.current.clear();
+    reconnectAttemptRef.current = 0;
+    shouldReconnectRef.current = true;
+    vadRef.current =
+      turnDetection.type === 'local_vad'
+        ? createVoiceActivityDetector({
+            energyThreshold: turnDetection.energyThreshold,
+            hangoverMs: turnDetection.hangoverMs,
+            sampleRate: SAMPLE_RATE,
+          })
+        : null;
 
-    // Build WS connection (Realtime Transcription API)
-    log('Connecting to realtime WS...');
-    const ws = new WebSocket(
-      'wss://api.openai.com/v1/realtime?intent=transcription',
-      ['realtime', `openai-insecure-api-key.${apiKey}`, 'openai-beta.realtime-v1']
-    );
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      log('WebSocket open');
-      // Update session with desired model & language
-      const sessionConfig = {
-        type: 'transcription_session.update',
-        session: {
-          input_audio_transcription: {
-            model
-          },
-          turn_detection: null,
-          include: [
-            "item.input_audio_transcription.logprobs"
-          ]
-        }
-      };
-      
-      log('Sending session config:', JSON.stringify(sessionConfig, null, 2));
-      ws.send(JSON.stringify(sessionConfig));
+    // Send audio captured during an outage, oldest first
+    const flushPendingAudio = (provider: TranscriptionProvider) => {
+      const pending = pendingAudioRef.current;
+      pendingAudioRef.current = [];
+      if (pending.length === 0) return 0;
 
-      setRecording(true);
-      
-      // Activate keep awake when starting new recording session
-      KeepAwake.activate();
-      log('Keep awake activated - device will not sleep during recording');
-      
-      AudioRecord.start();
-      startAutoCommitTimer(); // Start the timer when recording begins
+      log(`Replaying ${pending.length} audio chunks buffered while disconnected`);
+      for (const audio of pending) {
+        provider.appendAudio(audio);
+        addAudioUsage(pcmSeconds(Buffer.from(audio, 'base64').length));
+      }
+      audioChunksSinceLastCommit.current += pending.length;
+      setHasSentAudio(true);
+      return pending.length;
     };
 
-    ws.onmessage = (e) => {
-      log('WS message received', e.data);
-      try {
-        const data = JSON.parse(e.data);
-        log('Parsed WS message type:', data.type);
-        if (data.type === 'conversation.item.input_audio_transcription.completed') {
-          log('Full transcription completed message:', JSON.stringify(data, null, 2));
-        }
-        switch (data.type) {
-          case 'conversation.item.input_audio_transcription.delta':
-            if (data.delta) {
-              setInterimTranscript((prev) => prev + data.delta);
-              // Only reset timer if we're still recording
-              if (isRecordingRef.current) {
-                log('Transcription delta received, resetting timer');
-                resetAutoCommitTimer();
-              }
-            }
-            break;
-          case 'conversation.item.input_audio_transcription.completed':
-            if (data.transcript && data.transcript.trim()) {
-              // Detect language of the transcript
-              const detectedLangCode = franc(data.transcript);
-              const detectedLangName = getLanguageName(detectedLangCode);
-              
-              log('Language detected:', detectedLangCode, '->', detectedLangName);
-              log('Current languageA:', languageA, 'languageB:', languageB);
-              
-              // Extract logprobs if available - try different possible locations
-              log('Checking for logprobs in data...');
-              log('data.logprobs exists:', !!data.logprobs);
-              log('data.input_audio_transcription exists:', !!data.input_audio_transcription);
-              log('All data keys:', Object.keys(data));
-              
-              // Log the raw structure to understand the API response better
-              if (data.logprobs) {
-                log('data.logprobs structure:', JSON.stringify(data.logprobs, null, 2));
-              }
-              if (data.input_audio_transcription) {
-                log('data.input_audio_transcription structure:', JSON.stringify(data.input_audio_transcription, null, 2));
-              }
-              
-              let logprobs: TokenLogprob[] | undefined;
-              
-              // Try different possible locations for logprobs
-              if (data.logprobs && Array.isArray(data.logprobs)) {
-                // Direct array format: data.logprobs = [{token, logprob, bytes}, ...]
-                log('Found logprobs as direct array with length:', data.logprobs.length);
-                logprobs = data.logprobs.map((item: any, index: number) => {
-                  log(`Token ${index}:`, item);
-                  return {
-                    token: item.token,
-                    logprob: item.logprob,
-                    bytes: item.bytes || null
-                  };
-                });
-                log('Extracted logprobs from data.logprobs array:', JSON.stringify(logprobs, null, 2));
-              } else if (data.logprobs && data.logprobs.content) {
-                // Wrapped format: data.logprobs.content = [{token, logprob, bytes}, ...]
-                log('Found logprobs.content with length:', data.logprobs.content.length);
-                logprobs = data.logprobs.content.map((item: any, index: number) => {
-                  log(`Token ${index}:`, item);
-                  return {
-                    token: item.token,
-                    logprob: item.logprob,
-                    bytes: item.bytes || null
-                  };
-                });
-                log('Extracted logprobs from data.logprobs.content:', JSON.stringify(logprobs, null, 2));
-              } else if (data.input_audio_transcription && data.input_audio_transcription.logprobs) {
-                log('Found input_audio_transcription.logprobs');
-                const transcriptionLogprobs = data.input_audio_transcription.logprobs;
-                if (Array.isArray(transcriptionLogprobs)) {
-                  logprobs = transcriptionLogprobs.map((item: any, index: number) => {
-                    log(`Token ${index}:`, item);
-                    return {
-                      token: item.token,
-                      logprob: item.logprob,
-                      bytes: item.bytes || null
-                    };
-                  });
-                  log('Extracted logprobs from input_audio_transcription.logprobs array:', JSON.stringify(logprobs, null, 2));
-                } else if (transcriptionLogprobs.content) {
-                  logprobs = transcriptionLogprobs.content.map((item: any, index: number) => {
-                    log(`Token ${index}:`, item);
-                    return {
-                      token: item.token,
-                      logprob: item.logprob,
-                      bytes: item.bytes || null
-                    };
-                  });
-                  log('Extracted logprobs from input_audio_transcription.logprobs.content:', JSON.stringify(logprobs, null, 2));
-                }
-              } else {
-                log('No logprobs found in any expected location');
-                log('Tried: data.logprobs (array), data.logprobs.content, and data.input_audio_transcription.logprobs');
-              }
-              
-              const transcriptId = `${Date.now()}-${Math.random()}`;
-              const newTranscript: Transcript = {
-                id: transcriptId,
-                timestamp: new Date(),
-                text: data.transcript.trim(),
-                detectedLanguage: detectedLangCode,
-                detectedLanguageName: detectedLangName,
-                logprobs: logprobs,
-                // Don't set originalText here since this is the original
-              };
-              
-              log('Created transcript with:');
-              log('- text:', newTranscript.text);
-              log('- logprobs count:', newTranscript.logprobs?.length || 0);
-              log('- transcript object:', JSON.stringify(newTranscript, null, 2));
-              
-              setFinalTranscripts((prev) => [newTranscript, ...prev]);
-              setInterimTranscript('');
-              
-              // Check for auto-translation
-              const mappedLangCode = mapToLanguageCode(detectedLangCode);
-              log('Mapped language code:', mappedLangCode);
-              
-              if (mappedLangCode && languageA && languageB) {
-                log('Auto-translation check: mappedLangCode =', mappedLangCode, 'languageA =', languageA, 'languageB =', languageB);
-                if (mappedLangCode === languageB) {
-                  // Detected language matches Language B, auto-translate to Language A
-                  const targetLangName = getLanguageNameFromCode(languageA);
-                  log(`Auto-translating from ${detectedLangName} to ${targetLangName}`);
-                  setTimeout(() => performAutoTranslation(transcriptId, data.transcript.trim(), languageA, targetLangName), 500);
-                } else if (mappedLangCode === languageA) {
-                  // Detected language matches Language A, auto-translate to Language B
-                  const targetLangName = getLanguageNameFromCode(languageB);
-                  log(`Auto-translating from ${detectedLangName} to ${targetLangName}`);
-                  setTimeout(() => performAutoTranslation(transcriptId, data.transcript.trim(), languageB, targetLangName), 500);
-                } else {
-                  log('No auto-translation: detected language does not match either target language');
-                }
-              } else {
-                log('No auto-translation: missing parameters - mappedLangCode:', mappedLangCode, 'languageA:', languageA, 'languageB:', languageB);
-              }
-              
-              // Only reset timer if we're still recording
-              if (isRecordingRef.current) {
-                log('Transcription completed, resetting timer');
-                resetAutoCommitTimer();
-              }
-            } else {
-              log('Skipping empty transcript');
-            }
-            break;
-          default:
-            break;
-        }
-      } catch (err) {
-        console.warn('Failed to parse ws message', err);
+    const handleDelta = (delta: string) => {
+      setInterimTranscript((prev) => prev + delta);
+      // Only reset timer if we're still recording
+      if (isRecordingRef.current) {
+        log('Transcription delta received, resetting timer');
+        resetAutoCommitTimer();
       }
     };
 
-    ws.onerror = (e: any) => {
-      console.error('WS error', e.message ?? e);
+    const handleSpeechStarted = () => {
+      log('Speech started');
+      setSpeaking(true);
+      // Leading silence is not part of the segment
+      segmentStartMsRef.current = audioClockMsRef.current;
+      segmentStartByteRef.current = recordingBytesRef.current;
+    };
+
+    const handleSpeechStopped = (commitId: string) => {
+      log('Speech stopped - backend commits the turn');
+      setSpeaking(false);
+      // The server commits the buffer itself when it detects the end of a turn
+      markSegmentEnd(commitId);
+      audioChunksSinceLastCommit.current = 0;
+      setHasSentAudio(false);
+    };
+
+    // The timing recorded for a commit, forgotten once its transcript is in
+    const takeSegmentTiming = (commitId?: string) => {
+      if (!commitId) return undefined;
+      const timing = committedSegmentsRef.current.get(commitId);
+      committedSegmentsRef.current.delete(commitId);
+      return timing;
+    };
+
+    const handleCompleted = ({ transcript, logprobs, commitId }: TranscriptionResult) => {
+      const timing = takeSegmentTiming(commitId);
+      const text = transcript.trim();
+      if (!text) {
+        log('Skipping empty transcript');
+        return;
+      }
+
+      // Detect language of the transcript among the languages of the conversation
+      const settings = languageSettingsRef.current;
+      const detection = detectLanguage(text, {
+        candidates: Array.from(
+          new Set([...(settings.languages ?? []), ...(settings.detectionLanguages ?? [])])
+        ),
+        minConfidence: settings.detectionConfidence,
+        fallback: lastLanguageRef.current ?? undefined,
+      });
+      const detectedLangCode = detection.francCode;
+      const detectedLangName = getLanguageNameFromFrancCode(detectedLangCode);
+      if (detectedLangCode !== UNDETERMINED_LANGUAGE) {
+        lastLanguageRef.current = detectedLangCode;
+      }
+
+      log(
+        'Language detected:', detectedLangCode, '->', detectedLangName,
+        detection.uncertain ? '(uncertain, using previous segment)' : `(confidence ${detection.confidence.toFixed(2)})`
+      );
+
+      const transcriptId = `${Date.now()}-${Math.random()}`;
+      const newTranscript: Transcript = {
+        id: transcriptId,
+        timestamp: new Date(),
+        text,
+        detectedLanguage: detectedLangCode,
+        detectedLanguageName: detectedLangName,
+        languageSource: detection.uncertain ? 'previous' : 'detected',
+        languageConfidence: detection.confidence,
+        speaker: (
+          findSpeaker(speakerSettingsRef.current.speakers, speakerSettingsRef.current.currentSpeakerId ?? undefined) ??
+          speakerForLanguage(speakerSettingsRef.current.speakers, detectedLangCode)
+        )?.id,
+        logprobs: logprobs,
+        model,
+        startMs: timing?.startMs,
+        endMs: timing?.endMs,
+        audio: timing?.audio,
+      };
+
+      log('Created transcript with:');
+      log('- text:', newTranscript.text);
+      log('- logprobs count:', newTranscript.logprobs?.length || 0);
+      log('- transcript object:', JSON.stringify(newTranscript, null, 2));
+
+      setFinalTranscripts((prev) => [newTranscript, ...prev]);
+      setInterimTranscript('');
+
+      // Check for auto-translation
+      const mappedLangCode = findLanguageByFrancCode(detectedLangCode)?.iso6391 ?? null;
+      log('Mapped language code:', mappedLangCode);
+      autoTranslateRef.current(transcriptId, text, mappedLangCode);
+
+      // Only reset timer if we're still recording
+      if (isRecordingRef.current) {
+        log('Transcription completed, resetting timer');
+        resetAutoCommitTimer();
+      }
     };
 
-    ws.onclose = (ev) => {
-      log('WS closed', ev.code, ev.reason);
+    let hasOpened = false;
+
+    // Stop capturing for good once the connection can't be recovered
+    const stopAfterConnectionLoss = () => {
+      if (isRecordingRef.current) {
+        AudioRecord.stop()
+          .then((path) => log('Session audio saved to', path))
+          .catch((error) => console.error('Failed to save session audio:', error));
+      }
       setRecording(false);
-      
-      // Deactivate keep awake when WebSocket closes
+      pendingAudioRef.current = [];
+
+      // Deactivate keep awake when the connection is lost
       KeepAwake.deactivate();
-      log('Keep awake deactivated - WebSocket connection closed');
-      
-      wsRef.current = null; // Nullify the ref
+      log('Keep awake deactivated - transcription connection lost');
+
       if (commitTimeoutRef.current) {
         clearTimeout(commitTimeoutRef.current);
         commitTimeoutRef.current = null;
@@ -756,14 +950,112 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
       clearCountdown();
     };
 
+    const scheduleReconnect = () => {
+      if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        log(`Giving up after ${reconnectAttemptRef.current} reconnection attempts`);
+        setConnectionState('failed');
+        stopAfterConnectionLoss();
+        return;
+      }
+
+      const delay = Math.min(
+        RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptRef.current,
+        RECONNECT_MAX_DELAY_MS
+      );
+      reconnectAttemptRef.current += 1;
+      log(`Reconnecting in ${delay}ms (attempt ${reconnectAttemptRef.current}/${MAX_RECONNECT_ATTEMPTS})`);
+      setConnectionState('reconnecting');
+      reconnectTimeoutRef.current = setTimeout(() => {
+        reconnectTimeoutRef.current = null;
+        connect();
+      }, delay);
+    };
+
+    // Connect to the configured transcription backend
+    const connect = () => {
+      log('Connecting to transcription backend...');
+      realtimeTokenSource?.start();
+      const provider = createTranscriptionProvider(
+        { backend: 'openai-realtime', ...transcriptionBackend, apiKey, realtimeTokenSource },
+        { model, turnDetection, language, prompt }
+      );
+      providerRef.current = provider;
+      if (turnDetection.type === 'local_vad') {
+        segmentationModeRef.current = 'device';
+      } else if (turnDetection.type !== 'manual' && provider.supportsServerTurnDetection) {
+        segmentationModeRef.current = 'server';
+      } else {
+        segmentationModeRef.current = 'timer';
+      }
+      setSegmentationMode(segmentationModeRef.current);
+      setSpeaking(false);
+
+      provider.connect({
+        onOpen: () => {
+          const isReconnect = hasOpened;
+          hasOpened = true;
+          reconnectAttemptRef.current = 0;
+          setConnectionState('open');
+          const replayed = flushPendingAudio(provider);
+
+          if (isReconnect) {
+            log('Reconnected to transcription backend');
+            // Recording was stopped during the outage - transcribe what was captured
+            if (!isRecordingRef.current && replayed > 0) {
+              markSegmentEnd(provider.commit());
+              audioChunksSinceLastCommit.current = 0;
+            }
+            return;
+          }
+
+          setRecording(true);
+
+          // Activate keep awake when starting new recording session
+          KeepAwake.activate();
+          log('Keep awake activated - device will not sleep during recording');
+
+          startCapture();
+          startAutoCommitTimer(); // Start the timer when recording begins
+        },
+        onDelta: handleDelta,
+        onCompleted: handleCompleted,
+        onFailed: (commitId, error) => {
+          log('Transcription of commit', commitId, 'failed:', error);
+          takeSegmentTiming(commitId); // Never gets a transcript
+        },
+        onSpeechStarted: handleSpeechStarted,
+        onSpeechStopped: handleSpeechStopped,
+        onError: (error) => {
+          log('Transcription backend error:', error);
+        },
+        onClose: () => {
+          if (providerRef.current === provider) {
+            providerRef.current = null; // Nullify the ref
+          }
+
+          // Keep capturing audio and try again if the drop was unexpected
+          if (shouldReconnectRef.current && (isRecordingRef.current || reconnectAttemptRef.current > 0)) {
+            scheduleReconnect();
+            return;
+          }
+
+          setConnectionState(hasOpened ? 'idle' : 'failed');
+          stopAfterConnectionLoss();
+        },
+      });
+    };
+
     // Stream audio data
     let chunkCounter = 0;
     AudioRecord.on('data', (chunk: string) => {
       // chunk is base64-encoded 16-bit PCM mono @ sampleRate Hz
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
       
       // Decode audio data
       const bytes = Buffer.from(chunk, 'base64');
+      // Send silence rather than nothing so timings and VAD keep running
+      if (capturePausedRef.current) {
+        bytes.fill(0);
+      }
       
       // Optional: Apply software gain amplification if needed
       // Uncomment and adjust gain factor (1.5 = 50% louder, 2.0 = 100% louder)
@@ -774,6 +1066,18 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
          bytes.writeInt16LE(sample, i);
        }
        const amplifiedChunk = bytes.toString('base64');
+
+      // Advance the session clock by the duration of this chunk
+      if (segmentStartMsRef.current === null) {
+        segmentStartMsRef.current = audioClockMsRef.current;
+      }
+      audioClockMsRef.current +=
+        (bytes.length / (CHANNELS * (BITS_PER_SAMPLE / 8)) / SAMPLE_RATE) * 1000;
+      // The recorder writes the same PCM (before gain) to the WAV file
+      if (segmentStartByteRef.current === null) {
+        segmentStartByteRef.current = recordingBytesRef.current;
+      }
+      recordingBytesRef.current += bytes.length;
       
       // Calculate RMS level for UI meter
       const sampleCount = Math.min(bytes.length / 2, 2048); // analyse first ~2k samples
@@ -787,48 +1091,97 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
         setVolume(rms / 32768);
       }
 
-      wsRef.current.send(
-        JSON.stringify({
-          type: 'input_audio_buffer.append',
-          audio: amplifiedChunk, // Use amplifiedChunk if applying software gain
-        })
-      );
+      // On-device VAD looks at the same PCM the meter uses
+      const vadEvent = vadRef.current?.process(bytes) ?? null;
+      if (vadEvent === 'speech_start') {
+        log('On-device VAD: speech started');
+        setSpeaking(true);
+        // Leading silence is not part of the segment; speech began a little before it was
+        // confirmed, but never before what the last commit already took
+        const speechStartOffsetMs = vadRef.current?.speechStartOffsetMs() ?? 0;
+        const speechStartOffsetBytes =
+          Math.round((speechStartOffsetMs / 1000) * SAMPLE_RATE) * CHANNELS * (BITS_PER_SAMPLE / 8);
+        segmentStartMsRef.current = Math.max(
+          segmentStartMsRef.current ?? 0,
+          audioClockMsRef.current - speechStartOffsetMs
+        );
+        segmentStartByteRef.current = Math.max(
+          segmentStartByteRef.current ?? 0,
+          recordingBytesRef.current - speechStartOffsetBytes
+        );
+      } else if (vadEvent === 'speech_end') {
+        log('On-device VAD: speech stopped');
+        setSpeaking(false);
+      }
+
+      if (!providerRef.current?.isOpen()) {
+        // Hold on to the audio until the connection is back
+        pendingAudioRef.current.push(amplifiedChunk);
+        if (pendingAudioRef.current.length > MAX_BUFFERED_AUDIO_CHUNKS) {
+          pendingAudioRef.current.shift();
+        }
+        chunkCounter += 1;
+        return;
+      }
+
+      providerRef.current.appendAudio(amplifiedChunk); // Use amplifiedChunk if applying software gain
+      addAudioUsage(pcmSeconds(bytes.length));
       setHasSentAudio(true); // Mark that we've sent audio
       audioChunksSinceLastCommit.current += 1; // Track chunks sent since last commit
 
       // Don't reset timer based on audio levels anymore
       // Timer will be reset when API responds with transcription data
 
+      // With on-device VAD, commit when the speaker actually pauses
+      if (vadEvent === 'speech_end') {
+        commit();
+      } else if (
+        vadRef.current?.isSpeaking() &&
+        audioChunksSinceLastCommit.current >= MAX_DEVICE_VAD_SEGMENT_CHUNKS
+      ) {
+        log('On-device VAD: segment too long, committing');
+        commit();
+      }
+
       if (chunkCounter % 10 === 0) {
         log(`Sent audio chunk #${chunkCounter}`);
       }
       chunkCounter += 1;
     });
-  }, [apiKey, model, isRecording, startAutoCommitTimer, resetAutoCommitTimer]);
 
-  // Send session update when model changes while WebSocket is connected
+    setConnectionState('connecting');
+    connect();
+  }, [apiKey, model, language, prompt, transcriptionBackend, turnDetection, isRecording, commit, startAutoCommitTimer, resetAutoCommitTimer, markSegmentEnd, startCapture, addAudioUsage, realtimeTokenSource]);
+
+  // Send session update when model, language or prompt change while the backend is connected
   useEffect(() => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      log('Model changed to:', model, '- sending session update');
-      wsRef.current.send(
-        JSON.stringify({
-          type: 'transcription_session.update',
-          input_audio_transcription: {
-             model
-          }
-        })
-      );
+    if (providerRef.current?.isOpen()) {
+      log('Model changed to:', model, 'language:', language || 'auto', '- sending session update');
+      providerRef.current.updateSession({ model, turnDetection, language, prompt });
     }
-  }, [model]); // React to model changes
+    // Turn detection changes need a new connection, see below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [model, language, prompt]); // React to model, language and prompt changes
+
+  // Drop an idle connection when switching backends, endpoints or turn detection so the next recording uses the new one
+  useEffect(() => {
+    if (providerRef.current && !isRecordingRef.current) {
+      log('Transcription backend changed - closing idle connection');
+      providerRef.current.close();
+      providerRef.current = null;
+    }
+  }, [transcriptionBackend?.backend, transcriptionBackend?.localServerUrl, transcriptionBackend?.openAIConnection, turnDetection]);
 
   useEffect(() => {
     return () => {
       // cleanup
-      log('Cleaning up hook: closing WebSocket...');
+      log('Cleaning up hook: closing transcription connection...');
+      shouldReconnectRef.current = false;
+      if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
       if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
       clearCountdown();
-      wsRef.current?.close();
-      AudioRecord.stop();
+      providerRef.current?.close();
+      AudioRecord.stop().catch((error) => console.error('Failed to stop audio recording:', error));
       
       // Ensure keep awake is deactivated on cleanup
       KeepAwake.deactivate();
@@ -836,17 +1189,49 @@ export default function useRealtimeTranscription({ language, apiKey, model, lang
     };
   }, [clearCountdown]);
 
+  // finalTranscripts with the translations that are still being written in place of the saved ones
+  const visibleTranscripts = useMemo(() => {
+    const partials = Object.entries(partialTranslations);
+    if (partials.length === 0) return finalTranscripts;
+    return finalTranscripts.map((item) => {
+      const streaming = partials.filter(([key]) => key.startsWith(`${item.id}:`));
+      if (streaming.length === 0) return item;
+      return {
+        ...item,
+        translations: {
+          ...item.translations,
+          ...Object.fromEntries(
+            streaming.map(([key, text]) => [
+              key.slice(item.id.length + 1),
+              { text, provider: translationProvider.backend, createdAt: new Date() },
+            ])
+          ),
+        },
+      };
+    });
+  }, [finalTranscripts, partialTranslations, translationProvider]);
+
   return {
     finalTranscripts,
+    visibleTranscripts,
     interimTranscript,
     isRecording,
+    connectionState,
+    segmentationMode,
+    isSpeaking,
     startRecording,
     stopRecording,
     volume,
     translateTranscript,
+    setTranscriptLanguage,
+    setTranscriptSpeaker,
+    setCapturePaused,
+    retranscribeTranscript,
+    promoteAlternative,
     autoCommitCountdown,
     deleteTranscript,
     clearAllTranscripts,
+    replaceTranscripts,
     manualCommit,
   };
 } 
\ No newline at end of file
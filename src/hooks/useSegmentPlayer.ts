@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Sound from 'react-native-sound';
+import { Transcript } from './useRealtimeTranscription';
+import { writeSegmentWav } from '../utils/sessionAudio';
+
+// Plays back the recorded audio of one transcript at a time
+export default function useSegmentPlayer() {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const soundRef = useRef<Sound | null>(null);
+  // Bumped by every play and stop, so a segment still being read knows it was superseded
+  const requestRef = useRef<number>(0);
+
+  const stop = useCallback(() => {
+    requestRef.current += 1;
+    soundRef.current?.stop();
+    soundRef.current?.release();
+    soundRef.current = null;
+    setPlayingId(null);
+  }, []);
+
+  // Rejects when the segment has no recording or it can't be read
+  const play = useCallback(
+    async (transcript: Transcript) => {
+      stop();
+      if (!transcript.audio) {
+        throw new Error('No recording is available for this segment.');
+      }
+
+      const request = requestRef.current;
+      const path = await writeSegmentWav(transcript.audio);
+      if (requestRef.current !== request) return; // Another segment was tapped, or stopped
+      setPlayingId(transcript.id);
+      const sound: Sound = new Sound(path, '', (error) => {
+        if (soundRef.current !== sound) return; // Replaced by another segment while loading
+        if (error) {
+          console.error('Failed to load segment audio:', error);
+          stop();
+          return;
+        }
+        sound.play(() => {
+          if (soundRef.current === sound) {
+            stop();
+          }
+        });
+      });
+      soundRef.current = sound;
+    },
+    [stop]
+  );
+
+  // Release the player when the screen goes away
+  useEffect(() => stop, [stop]);
+
+  return { playingId, play, stop };
+}
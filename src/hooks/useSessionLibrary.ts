@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Session,
+  createSessionId,
+  defaultSessionTitle,
+  loadSessionLibrary,
+  saveActiveSessionId,
+  saveSessions,
+} from '../storage/sessionStorage';
+import { Speaker } from '../utils/speakers';
+import { UsageEvent, addUsage } from '../utils/usage';
+
+interface NewSessionOptions {
+  languages: string[];
+  speakers: Speaker[];
+  model: string;
+}
+
+export default function useSessionLibrary() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const hasLoadedRef = useRef<boolean>(false);
+  // What is in storage, so a save only writes the sessions that changed
+  const savedSessionsRef = useRef<Session[]>([]);
+
+  // Restore the library from previous app runs
+  useEffect(() => {
+    loadSessionLibrary()
+      .then((library) => {
+        hasLoadedRef.current = true;
+        savedSessionsRef.current = library.sessions;
+        setSessions(library.sessions);
+        setActiveSessionId(library.activeSessionId);
+      })
+      .catch((error) => {
+        // Leave saving off: an empty library saved now would replace the stored sessions
+        console.error('Failed to load sessions:', error);
+        setLoadError(error);
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Save sessions whenever they change
+  useEffect(() => {
+    // Don't overwrite stored sessions before they have been restored
+    if (!hasLoadedRef.current) return;
+    const previous = savedSessionsRef.current;
+    savedSessionsRef.current = sessions;
+    saveSessions(sessions, previous).catch((error) => {
+      // Write everything again next time rather than trust what made it to storage
+      savedSessionsRef.current = [];
+      console.error('Failed to save sessions:', error);
+    });
+  }, [sessions]);
+
+  // Save which session is open
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveActiveSessionId(activeSessionId).catch((error) =>
+      console.error('Failed to save active session:', error)
+    );
+  }, [activeSessionId]);
+
+  const createSession = useCallback(({ languages, speakers, model }: NewSessionOptions) => {
+    const startedAt = new Date();
+    const session: Session = {
+      id: createSessionId(),
+      title: defaultSessionTitle(startedAt),
+      startedAt,
+      languages,
+      speakers,
+      model,
+      transcripts: [],
+    };
+    setSessions((prev) => [session, ...prev]);
+    setActiveSessionId(session.id);
+    return session;
+  }, []);
+
+  const updateSession = useCallback(
+    (sessionId: string, changes: Partial<Omit<Session, 'id'>>) => {
+      setSessions((prev) =>
+        prev.map((session) => (session.id === sessionId ? { ...session, ...changes } : session))
+      );
+    },
+    []
+  );
+
+  // Add billable usage to the running total of a session
+  const recordSessionUsage = useCallback((sessionId: string, event: UsageEvent) => {
+    setSessions((prev) =>
+      prev.map((session) =>
+        session.id === sessionId ? { ...session, usage: addUsage(session.usage, event) } : session
+      )
+    );
+  }, []);
+
+  const renameSession = useCallback(
+    (sessionId: string, title: string) => {
+      const trimmed = title.trim();
+      if (trimmed) {
+        updateSession(sessionId, { title: trimmed });
+      }
+    },
+    [updateSession]
+  );
+
+  // Add a session from an export; it gets a fresh id so it never clobbers the original
+  const importSession = useCallback((imported: Session) => {
+    const session: Session = { ...imported, id: createSessionId() };
+    setSessions((prev) => [session, ...prev]);
+    return session;
+  }, []);
+
+  const deleteSession = useCallback((sessionId: string) => {
+    setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    setActiveSessionId((prev) => (prev === sessionId ? null : prev));
+  }, []);
+
+  const activeSession = sessions.find((session) => session.id === activeSessionId) ?? null;
+
+  return {
+    sessions,
+    activeSession,
+    isLoaded,
+    loadError,
+    setActiveSessionId,
+    createSession,
+    updateSession,
+    recordSessionUsage,
+    renameSession,
+    importSession,
+    deleteSession,
+  };
+}
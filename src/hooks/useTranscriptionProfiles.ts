@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_PROFILE,
+  TranscriptionProfile,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+} from '../storage/profileStorage';
+
+export default function useTranscriptionProfiles() {
+  const [profiles, setProfiles] = useState<TranscriptionProfile[]>([DEFAULT_PROFILE]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE.id);
+  const hasLoadedRef = useRef<boolean>(false);
+
+  // Restore profiles from previous app runs
+  useEffect(() => {
+    loadProfiles()
+      .then((state) => {
+        hasLoadedRef.current = true;
+        setProfiles(state.profiles);
+        setActiveProfileId(state.activeProfileId);
+      })
+      .catch((error) => {
+        hasLoadedRef.current = true;
+        console.error('Failed to load profiles:', error);
+      });
+  }, []);
+
+  // Save profiles whenever they change
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveProfiles(profiles).catch((error) =>
+      console.error('Failed to save profiles:', error)
+    );
+  }, [profiles]);
+
+  // Save which profile is selected
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveActiveProfileId(activeProfileId).catch((error) =>
+      console.error('Failed to save active profile:', error)
+    );
+  }, [activeProfileId]);
+
+  const createProfile = useCallback((name: string) => {
+    const profile: TranscriptionProfile = {
+      id: `${Date.now()}-${Math.random()}`,
+      name: name.trim() || 'New profile',
+      prompt: '',
+      vocabulary: [],
+    };
+    setProfiles((prev) => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    return profile;
+  }, []);
+
+  const updateProfile = useCallback(
+    (profileId: string, changes: Partial<Omit<TranscriptionProfile, 'id'>>) => {
+      setProfiles((prev) =>
+        prev.map((profile) => (profile.id === profileId ? { ...profile, ...changes } : profile))
+      );
+    },
+    []
+  );
+
+  const deleteProfile = useCallback((profileId: string) => {
+    setProfiles((prev) => {
+      const remaining = prev.filter((profile) => profile.id !== profileId);
+      return remaining.length > 0 ? remaining : [DEFAULT_PROFILE];
+    });
+    setActiveProfileId((prev) => (prev === profileId ? DEFAULT_PROFILE.id : prev));
+  }, []);
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0] ?? DEFAULT_PROFILE;
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+  };
+}
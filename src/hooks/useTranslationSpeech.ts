@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import RNFS from 'react-native-fs';
+import Sound from 'react-native-sound';
+import { OpenAIConnection } from '../providers/openAIConnection';
+import { synthesizeSpeech } from '../providers/speech';
+
+const SPEECH_FILE_PATH = `${RNFS.CachesDirectoryPath}/speech.mp3`;
+
+interface Options {
+  apiKey: string;
+  connection: OpenAIConnection;
+  voice: string;
+}
+
+interface SpeechItem {
+  transcriptId: string;
+  text: string;
+}
+
+// Reads translations aloud one after another. isPlaying is only true while audio
+// actually comes out of the speaker, so recording can be paused for exactly that long.
+export default function useTranslationSpeech({ apiKey, connection, voice }: Options) {
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const [isPlaying, setPlaying] = useState(false);
+  const queueRef = useRef<SpeechItem[]>([]);
+  const soundRef = useRef<Sound | null>(null);
+  const isRunningRef = useRef(false);
+  // Bumped by stop() so a request that is still loading is dropped
+  const generationRef = useRef(0);
+  const settingsRef = useRef({ apiKey, connection, voice });
+
+  useEffect(() => {
+    settingsRef.current = { apiKey, connection, voice };
+  }, [apiKey, connection, voice]);
+
+  // Settles the playback in progress, so stop() can end it without waiting for the sound
+  const finishPlaybackRef = useRef<(() => void) | null>(null);
+
+  const playFile = (path: string, generation: number) =>
+    new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        if (finishPlaybackRef.current === finish) {
+          finishPlaybackRef.current = null;
+        }
+        resolve();
+      };
+      finishPlaybackRef.current = finish;
+      const sound: Sound = new Sound(path, '', (error) => {
+        if (generation !== generationRef.current) return; // Stopped while loading, see stop()
+        if (error) {
+          finishPlaybackRef.current = null;
+          reject(error);
+          return;
+        }
+        setPlaying(true);
+        sound.play(() => {
+          setPlaying(false);
+          sound.release();
+          if (soundRef.current === sound) {
+            soundRef.current = null;
+          }
+          finish();
+        });
+      });
+      soundRef.current = sound;
+    });
+
+  const playNext = useCallback(async () => {
+    const generation = generationRef.current;
+    const item = queueRef.current.shift();
+    if (!item) {
+      isRunningRef.current = false;
+      setSpeakingId(null);
+      return;
+    }
+
+    setSpeakingId(item.transcriptId);
+    try {
+      const audio = await synthesizeSpeech({ ...settingsRef.current, text: item.text });
+      if (generation !== generationRef.current) return;
+      await RNFS.writeFile(SPEECH_FILE_PATH, audio, 'base64');
+      if (generation !== generationRef.current) return;
+      await playFile(SPEECH_FILE_PATH, generation);
+    } catch (error) {
+      console.error('Failed to speak translation:', error);
+    }
+    if (generation === generationRef.current) {
+      playNext();
+    }
+  }, []);
+
+  // Queue texts to be spoken after whatever is playing now
+  const speak = useCallback(
+    (transcriptId: string, texts: string[]) => {
+      queueRef.current.push(...texts.filter((text) => text.trim()).map((text) => ({ transcriptId, text })));
+      if (!isRunningRef.current) {
+        isRunningRef.current = true;
+        playNext();
+      }
+    },
+    [playNext]
+  );
+
+  const stop = useCallback(() => {
+    generationRef.current += 1;
+    queueRef.current = [];
+    isRunningRef.current = false;
+    soundRef.current?.stop();
+    soundRef.current?.release();
+    soundRef.current = null;
+    // The stopped sound never reports its end
+    const finishPlayback = finishPlaybackRef.current;
+    finishPlaybackRef.current = null;
+    finishPlayback?.();
+    setPlaying(false);
+    setSpeakingId(null);
+  }, []);
+
+  // Release the player when the screen goes away
+  useEffect(() => stop, [stop]);
+
+  return { speakingId, isPlaying, speak, stop };
+}
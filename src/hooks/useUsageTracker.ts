@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  loadUsageState,
+  saveMonthlyBudget,
+  saveMonthlyUsage,
+  savePrices,
+} from '../storage/usageStorage';
+import {
+  DEFAULT_PRICES,
+  ModelPrice,
+  PriceTable,
+  Usage,
+  UsageEvent,
+  addUsage,
+  estimateCost,
+  mergeUsage,
+  monthKey,
+} from '../utils/usage';
+
+// Rolling per-month usage, the price table used for estimates and the optional monthly budget
+export default function useUsageTracker() {
+  const [monthlyUsage, setMonthlyUsage] = useState<Record<string, Usage>>({});
+  const [prices, setPrices] = useState<PriceTable>(DEFAULT_PRICES);
+  const [monthlyBudget, setMonthlyBudget] = useState(0);
+  const hasLoadedRef = useRef<boolean>(false);
+
+  // Restore usage from previous app runs
+  useEffect(() => {
+    loadUsageState()
+      .then((state) => {
+        hasLoadedRef.current = true;
+        // Usage may already have been recorded while loading; add it to the stored totals
+        setMonthlyUsage((recorded) =>
+          Object.entries(recorded).reduce(
+            (merged, [month, usage]) => ({ ...merged, [month]: mergeUsage(merged[month], usage) }),
+            state.monthlyUsage
+          )
+        );
+        setPrices(state.prices);
+        setMonthlyBudget(state.monthlyBudget);
+      })
+      .catch((error) => {
+        hasLoadedRef.current = true;
+        console.error('Failed to load usage:', error);
+      });
+  }, []);
+
+  // Save usage whenever it changes
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveMonthlyUsage(monthlyUsage).catch((error) =>
+      console.error('Failed to save usage:', error)
+    );
+  }, [monthlyUsage]);
+
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    savePrices(prices).catch((error) => console.error('Failed to save prices:', error));
+  }, [prices]);
+
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveMonthlyBudget(monthlyBudget).catch((error) =>
+      console.error('Failed to save budget:', error)
+    );
+  }, [monthlyBudget]);
+
+  const recordUsage = useCallback((event: UsageEvent) => {
+    const month = monthKey(new Date());
+    setMonthlyUsage((prev) => ({ ...prev, [month]: addUsage(prev[month], event) }));
+  }, []);
+
+  const updatePrice = useCallback((model: string, changes: ModelPrice) => {
+    setPrices((prev) => ({ ...prev, [model]: { ...prev[model], ...changes } }));
+  }, []);
+
+  const currentMonthCost = estimateCost(monthlyUsage[monthKey(new Date())], prices);
+  const isOverBudget = monthlyBudget > 0 && currentMonthCost >= monthlyBudget;
+
+  return {
+    prices,
+    updatePrice,
+    monthlyBudget,
+    setMonthlyBudget,
+    currentMonthCost,
+    isOverBudget,
+    recordUsage,
+  };
+}
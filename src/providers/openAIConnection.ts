@@ -0,0 +1,61 @@
+export type OpenAIAuthScheme = 'bearer' | 'api-key' | 'custom-header';
+
+// Where OpenAI requests go and how they authenticate. Lets the app talk to
+// Azure OpenAI deployments or a corporate proxy instead of api.openai.com.
+export interface OpenAIConnection {
+  realtimeUrl: string;
+  chatCompletionsUrl: string;
+  transcriptionsUrl: string; // Non-realtime transcription of recorded segments
+  speechUrl: string; // Text-to-speech for spoken translations
+  authScheme: OpenAIAuthScheme;
+  customHeaderName?: string; // Used with the 'custom-header' scheme
+  realtimeTokenUrl?: string; // Token broker; when set the socket uses short-lived secrets instead of the API key
+}
+
+export const DEFAULT_REALTIME_URL = 'wss://api.openai.com/v1/realtime?intent=transcription';
+export const DEFAULT_CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+export const DEFAULT_TRANSCRIPTIONS_URL = 'https://api.openai.com/v1/audio/transcriptions';
+export const DEFAULT_SPEECH_URL = 'https://api.openai.com/v1/audio/speech';
+
+export const DEFAULT_OPENAI_CONNECTION: OpenAIConnection = {
+  realtimeUrl: DEFAULT_REALTIME_URL,
+  chatCompletionsUrl: DEFAULT_CHAT_COMPLETIONS_URL,
+  transcriptionsUrl: DEFAULT_TRANSCRIPTIONS_URL,
+  speechUrl: DEFAULT_SPEECH_URL,
+  authScheme: 'bearer',
+};
+
+export const OPENAI_AUTH_SCHEMES = [
+  { label: 'Bearer token (OpenAI)', value: 'bearer' },
+  { label: 'api-key header (Azure OpenAI)', value: 'api-key' },
+  { label: 'Custom header (proxy)', value: 'custom-header' },
+];
+
+// Blank fields fall back to the public OpenAI endpoints
+export const resolveOpenAIConnection = (connection?: Partial<OpenAIConnection>): OpenAIConnection => ({
+  realtimeUrl: connection?.realtimeUrl?.trim() || DEFAULT_REALTIME_URL,
+  chatCompletionsUrl: connection?.chatCompletionsUrl?.trim() || DEFAULT_CHAT_COMPLETIONS_URL,
+  transcriptionsUrl: connection?.transcriptionsUrl?.trim() || DEFAULT_TRANSCRIPTIONS_URL,
+  speechUrl: connection?.speechUrl?.trim() || DEFAULT_SPEECH_URL,
+  authScheme: connection?.authScheme ?? 'bearer',
+  customHeaderName: connection?.customHeaderName?.trim(),
+  realtimeTokenUrl: connection?.realtimeTokenUrl?.trim() || undefined,
+});
+
+export const openAIAuthHeaders = (
+  connection: OpenAIConnection,
+  apiKey: string,
+): { [headerName: string]: string } => {
+  switch (connection.authScheme) {
+    case 'api-key':
+      return { 'api-key': apiKey };
+    case 'custom-header':
+      if (!connection.customHeaderName) {
+        throw new Error('Custom auth header name is not set.');
+      }
+      return { [connection.customHeaderName]: apiKey };
+    case 'bearer':
+    default:
+      return { Authorization: `Bearer ${apiKey}` };
+  }
+};
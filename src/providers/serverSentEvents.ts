@@ -0,0 +1,129 @@
+// React Native's fetch buffers the whole response, so streamed endpoints are read
+// through XMLHttpRequest, whose responseText grows while onprogress fires.
+
+export interface EventStreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  onEvent: (data: string) => void; // The data of each event, e.g. one JSON chunk
+  signal?: AbortSignal;
+}
+
+export class StreamAbortedError extends Error {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'StreamAbortedError';
+  }
+}
+
+export class EventStreamHttpError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`HTTP ${status} ${body}`);
+    this.name = 'EventStreamHttpError';
+  }
+}
+
+// Splits text/event-stream input into events; input may end anywhere, even mid-line
+export function createEventStreamParser(onEvent: (data: string) => void) {
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent(dataLines.join('\n'));
+    }
+    dataLines = [];
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last piece is incomplete until a line break arrives
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          dispatch();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+        }
+        // Comments (":") and other fields (event, id, retry) are not used here
+      }
+    },
+    end: () => {
+      if (buffer.startsWith('data:')) {
+        dataLines.push(buffer.slice(buffer.startsWith('data: ') ? 6 : 5));
+      }
+      buffer = '';
+      dispatch();
+    },
+  };
+}
+
+// POST a request and hand each server-sent event to onEvent as it arrives
+export function postEventStream({ url, headers, body, onEvent, signal }: EventStreamRequest): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new StreamAbortedError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const parser = createEventStreamParser(onEvent);
+    let received = 0;
+
+    const isSuccess = () => xhr.status >= 200 && xhr.status < 300;
+    const readNewText = () => {
+      const text = xhr.responseText ?? '';
+      if (text.length > received) {
+        parser.push(text.slice(received));
+        received = text.length;
+      }
+    };
+    const handleAbort = () => xhr.abort();
+    // onEvent may throw, e.g. on a malformed chunk; that fails the request instead of escaping the XHR callback
+    const consume = (read: () => void) => {
+      try {
+        read();
+        return true;
+      } catch (error) {
+        signal?.removeEventListener('abort', handleAbort);
+        reject(error);
+        xhr.abort();
+        return false;
+      }
+    };
+
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.onprogress = () => {
+      // Error bodies are plain JSON and reported once complete
+      if (isSuccess()) {
+        consume(readNewText);
+      }
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      if (!isSuccess()) {
+        reject(new EventStreamHttpError(xhr.status, xhr.responseText));
+        return;
+      }
+      if (consume(() => {
+        readNewText();
+        parser.end();
+      })) {
+        resolve();
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new Error('Network request failed'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new StreamAbortedError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(body);
+  });
+}
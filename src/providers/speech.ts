@@ -0,0 +1,62 @@
+import { OpenAIConnection, openAIAuthHeaders } from './openAIConnection';
+
+const SPEECH_MODEL = 'gpt-4o-mini-tts';
+
+export const SPEECH_VOICES = [
+  { label: 'Alloy', value: 'alloy' },
+  { label: 'Ash', value: 'ash' },
+  { label: 'Ballad', value: 'ballad' },
+  { label: 'Coral', value: 'coral' },
+  { label: 'Echo', value: 'echo' },
+  { label: 'Fable', value: 'fable' },
+  { label: 'Nova', value: 'nova' },
+  { label: 'Onyx', value: 'onyx' },
+  { label: 'Sage', value: 'sage' },
+  { label: 'Shimmer', value: 'shimmer' },
+];
+
+export const DEFAULT_SPEECH_VOICE = 'alloy';
+
+export interface SpeechRequest {
+  apiKey: string;
+  connection: OpenAIConnection;
+  text: string;
+  voice: string;
+}
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Speak text through the OpenAI speech endpoint; resolves with base64-encoded MP3
+export async function synthesizeSpeech({ apiKey, connection, text, voice }: SpeechRequest): Promise<string> {
+  if (!apiKey) {
+    throw new Error('API key is not set.');
+  }
+
+  const response = await fetch(connection.speechUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...openAIAuthHeaders(connection, apiKey),
+    },
+    body: JSON.stringify({
+      model: SPEECH_MODEL,
+      input: text,
+      voice,
+      response_format: 'mp3',
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`OpenAI speech error: ${response.status} ${errText}`);
+  }
+
+  // React Native's fetch has no arrayBuffer(), but blobs can be read as data URLs
+  return blobToBase64(await response.blob());
+}
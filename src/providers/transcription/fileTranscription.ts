@@ -0,0 +1,62 @@
+import { Buffer } from 'buffer';
+import { toTokenLogprobs } from './openAIRealtimeProvider';
+import { TranscriptionResult } from './types';
+
+const log = (...args: any[]) => console.log('[FileTranscription]', ...args);
+
+export interface FileTranscriptionRequest {
+  url: string; // An OpenAI-compatible /v1/audio/transcriptions endpoint
+  headers?: { [headerName: string]: string };
+  wav: Buffer;
+  model: string;
+  language?: string;
+  prompt?: string;
+  includeLogprobs?: boolean; // Only the gpt-4o transcription models return them
+}
+
+// One-shot (non-realtime) transcription of a complete WAV file
+export async function transcribeWav({
+  url,
+  headers,
+  wav,
+  model,
+  language,
+  prompt,
+  includeLogprobs,
+}: FileTranscriptionRequest): Promise<TranscriptionResult> {
+  const formData = new FormData();
+  formData.append('file', {
+    uri: `data:audio/wav;base64,${wav.toString('base64')}`,
+    type: 'audio/wav',
+    name: 'segment.wav',
+  } as any);
+  formData.append('model', model);
+  if (language) {
+    formData.append('language', language);
+  }
+  if (prompt) {
+    formData.append('prompt', prompt);
+  }
+  if (includeLogprobs) {
+    formData.append('include[]', 'logprobs');
+  }
+  formData.append('response_format', 'json');
+
+  log(`Posting ${wav.length} bytes to ${url} (${model})`);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`Transcription request failed: ${response.status} ${errText}`);
+  }
+
+  const data = await response.json();
+  return {
+    transcript: (data.text ?? '') as string,
+    logprobs: Array.isArray(data.logprobs) ? toTokenLogprobs(data.logprobs) : undefined,
+  };
+}
@@ -0,0 +1,71 @@
+import { Buffer } from 'buffer';
+import { createLocalServerProvider, localServerTranscriptionsUrl } from './localServerProvider';
+import { createOpenAIRealtimeProvider } from './openAIRealtimeProvider';
+import { transcribeWav } from './fileTranscription';
+import { openAIAuthHeaders, resolveOpenAIConnection } from '../openAIConnection';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderSettings,
+  TranscriptionResult,
+  TranscriptionSessionConfig,
+} from './types';
+
+export * from './types';
+export * from './turnDetection';
+export * from './prompt';
+export * from './realtimeToken';
+
+export const TRANSCRIPTION_BACKENDS = [
+  { label: 'OpenAI Realtime', value: 'openai-realtime' },
+  { label: 'Local server (OpenAI-compatible)', value: 'local-server' },
+];
+
+export function createTranscriptionProvider(
+  settings: TranscriptionProviderSettings,
+  config: TranscriptionSessionConfig,
+): TranscriptionProvider {
+  switch (settings.backend) {
+    case 'local-server':
+      return createLocalServerProvider({
+        baseUrl: settings.localServerUrl ?? '',
+        apiKey: settings.apiKey,
+        config,
+      });
+    case 'openai-realtime':
+    default:
+      return createOpenAIRealtimeProvider({
+        apiKey: settings.apiKey,
+        connection: resolveOpenAIConnection(settings.openAIConnection),
+        tokenSource: settings.realtimeTokenSource,
+        config,
+      });
+  }
+}
+
+// Transcribe a recorded segment in one request, through the same backend the live stream uses
+export function transcribeRecording(
+  settings: TranscriptionProviderSettings,
+  wav: Buffer,
+  config: Omit<TranscriptionSessionConfig, 'turnDetection'>,
+): Promise<TranscriptionResult> {
+  switch (settings.backend) {
+    case 'local-server':
+      return transcribeWav({
+        url: localServerTranscriptionsUrl(settings.localServerUrl ?? ''),
+        headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : undefined,
+        wav,
+        ...config,
+      });
+    case 'openai-realtime':
+    default: {
+      const connection = resolveOpenAIConnection(settings.openAIConnection);
+      return transcribeWav({
+        url: connection.transcriptionsUrl,
+        headers: openAIAuthHeaders(connection, settings.apiKey),
+        wav,
+        ...config,
+        includeLogprobs: config.model.startsWith('gpt-4o'),
+      });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { encodeWav, concatBase64Pcm } from '../../utils/wav';
+import { transcribeWav } from './fileTranscription';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderEvents,
+  TranscriptionSessionConfig,
+} from './types';
+
+const log = (...args: any[]) => console.log('[LocalServer]', ...args);
+
+interface Options {
+  baseUrl: string;
+  apiKey?: string; // Most self-hosted servers ignore it, some proxies require one
+  config: TranscriptionSessionConfig;
+}
+
+// Counts across connections so commit ids stay unique after a reconnect
+let commitCount = 0;
+
+// Self-hosted OpenAI-compatible server (e.g. a local whisper server). There is no
+// streaming here: audio is buffered until commit and posted to /v1/audio/transcriptions.
+export const localServerTranscriptionsUrl = (baseUrl: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/v1/audio/transcriptions`;
+
+export function createLocalServerProvider({ baseUrl, apiKey, config }: Options): TranscriptionProvider {
+  const endpoint = localServerTranscriptionsUrl(baseUrl);
+  let events: TranscriptionProviderEvents | null = null;
+  let sessionConfig = config;
+  let chunks: string[] = [];
+  // One request at a time, so transcripts arrive in the order they were spoken
+  let queue: Promise<void> = Promise.resolve();
+
+  const transcribe = (audio: string[]) => {
+    log(`Posting ${audio.length} chunks to ${endpoint}`);
+    return transcribeWav({
+      url: endpoint,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      wav: encodeWav(concatBase64Pcm(audio)),
+      model: sessionConfig.model,
+      language: sessionConfig.language,
+      prompt: sessionConfig.prompt,
+    });
+  };
+
+  return {
+    // Plain HTTP has no VAD - the app keeps committing on its own timer
+    supportsServerTurnDetection: false,
+    connect: (providerEvents) => {
+      events = providerEvents;
+      chunks = [];
+      log('Using local transcription server at', endpoint);
+      // Plain HTTP - nothing to open, but report asynchronously like a socket would
+      setTimeout(() => events?.onOpen(), 0);
+    },
+    isOpen: () => events !== null,
+    updateSession: (newConfig) => {
+      sessionConfig = newConfig;
+    },
+    appendAudio: (base64Pcm) => {
+      chunks.push(base64Pcm);
+    },
+    commit: () => {
+      commitCount += 1;
+      const commitId = `local-${commitCount}`;
+      const audio = chunks;
+      chunks = [];
+      if (audio.length === 0 || !events) return commitId;
+
+      const currentEvents = events;
+      queue = queue.then(() =>
+        transcribe(audio)
+          .then((result) => currentEvents.onCompleted({ ...result, commitId }))
+          .catch((error) => {
+            log('Transcription request failed:', error);
+            currentEvents.onFailed?.(commitId, error);
+            currentEvents.onError(error);
+          })
+      );
+      return commitId;
+    },
+    close: () => {
+      const currentEvents = events;
+      events = null;
+      chunks = [];
+      currentEvents?.onClose();
+    },
+  };
+}
@@ -0,0 +1,246 @@
+import { TokenLogprob } from '../../hooks/useRealtimeTranscription';
+import { OpenAIConnection, openAIAuthHeaders } from '../openAIConnection';
+import { MANUAL_TURN_DETECTION, toRealtimeTurnDetection } from './turnDetection';
+import { RealtimeTokenSource } from './realtimeToken';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderEvents,
+  TranscriptionSessionConfig,
+} from './types';
+
+const log = (...args: any[]) => console.log('[OpenAIRealtime]', ...args);
+
+// Counts across connections so commit ids stay unique after a reconnect
+let commitCount = 0;
+
+export const toTokenLogprobs = (items: any[]): TokenLogprob[] =>
+  items.map((item: any) => ({
+    token: item.token,
+    logprob: item.logprob,
+    bytes: item.bytes || null,
+  }));
+
+// The logprobs have been seen in a few different places of the completed event
+const extractLogprobs = (data: any): TokenLogprob[] | undefined => {
+  if (data.logprobs && Array.isArray(data.logprobs)) {
+    // Direct array format: data.logprobs = [{token, logprob, bytes}, ...]
+    log('Found logprobs as direct array with length:', data.logprobs.length);
+    return toTokenLogprobs(data.logprobs);
+  }
+  if (data.logprobs && data.logprobs.content) {
+    // Wrapped format: data.logprobs.content = [{token, logprob, bytes}, ...]
+    log('Found logprobs.content with length:', data.logprobs.content.length);
+    return toTokenLogprobs(data.logprobs.content);
+  }
+  if (data.input_audio_transcription && data.input_audio_transcription.logprobs) {
+    log('Found input_audio_transcription.logprobs');
+    const transcriptionLogprobs = data.input_audio_transcription.logprobs;
+    if (Array.isArray(transcriptionLogprobs)) {
+      return toTokenLogprobs(transcriptionLogprobs);
+    }
+    if (transcriptionLogprobs.content) {
+      return toTokenLogprobs(transcriptionLogprobs.content);
+    }
+  }
+  log('No logprobs found in any expected location');
+  log('Tried: data.logprobs (array), data.logprobs.content, and data.input_audio_transcription.logprobs');
+  return undefined;
+};
+
+interface Options {
+  apiKey: string;
+  connection: OpenAIConnection;
+  config: TranscriptionSessionConfig;
+  tokenSource?: RealtimeTokenSource; // Authenticate with short-lived secrets instead of the API key
+}
+
+// OpenAI Realtime API in transcription mode, streaming audio over a WebSocket
+export function createOpenAIRealtimeProvider({ apiKey, connection, config, tokenSource }: Options): TranscriptionProvider {
+  let ws: WebSocket | null = null;
+  let sessionConfig = config;
+  let awaitingToken: TranscriptionProviderEvents | null = null; // Listener while the broker is asked for a secret
+  // Manual commits get their own id, tied to the conversation item once the server acknowledges them.
+  // Turns committed by server VAD use the item id from speech_stopped instead.
+  const unacknowledgedCommits: string[] = []; // In the order they were sent
+  const serverCommittedItems = new Set<string>();
+  const commitIdsByItem = new Map<string, string>();
+
+  const commitIdForItem = (itemId: string) => {
+    const commitId = commitIdsByItem.get(itemId) ?? itemId;
+    commitIdsByItem.delete(itemId);
+    return commitId;
+  };
+
+  const send = (message: object) => {
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const sendSessionConfig = () => {
+    const message = {
+      type: 'transcription_session.update',
+      session: {
+        input_audio_transcription: {
+          model: sessionConfig.model,
+          ...(sessionConfig.language ? { language: sessionConfig.language } : {}),
+          ...(sessionConfig.prompt ? { prompt: sessionConfig.prompt } : {}),
+        },
+        turn_detection: toRealtimeTurnDetection(sessionConfig.turnDetection ?? MANUAL_TURN_DETECTION),
+        include: [
+          'item.input_audio_transcription.logprobs',
+        ],
+      },
+    };
+    log('Sending session config:', JSON.stringify(message, null, 2));
+    send(message);
+  };
+
+  const handleMessage = (events: TranscriptionProviderEvents, e: WebSocketMessageEvent) => {
+    log('WS message received', e.data);
+    try {
+      const data = JSON.parse(e.data);
+      log('Parsed WS message type:', data.type);
+      switch (data.type) {
+        case 'conversation.item.input_audio_transcription.delta':
+          if (data.delta) {
+            events.onDelta(data.delta);
+          }
+          break;
+        case 'input_audio_buffer.speech_started':
+          events.onSpeechStarted?.();
+          break;
+        case 'input_audio_buffer.speech_stopped':
+          serverCommittedItems.add(data.item_id);
+          events.onSpeechStopped?.(data.item_id);
+          break;
+        case 'input_audio_buffer.committed': {
+          if (serverCommittedItems.delete(data.item_id)) break;
+          const commitId = unacknowledgedCommits.shift();
+          if (commitId) {
+            commitIdsByItem.set(data.item_id, commitId);
+          }
+          break;
+        }
+        case 'conversation.item.input_audio_transcription.completed':
+          log('Full transcription completed message:', JSON.stringify(data, null, 2));
+          events.onCompleted({
+            transcript: data.transcript ?? '',
+            logprobs: extractLogprobs(data),
+            commitId: commitIdForItem(data.item_id),
+          });
+          break;
+        case 'conversation.item.input_audio_transcription.failed':
+          console.error('Transcription failed:', data.error);
+          events.onFailed?.(commitIdForItem(data.item_id), data.error);
+          break;
+        case 'error': {
+          // A rejected commit (e.g. too little audio) names the client event that caused it
+          const index = unacknowledgedCommits.indexOf(data.event_id);
+          if (index !== -1) {
+            unacknowledgedCommits.splice(index, 1);
+            events.onFailed?.(data.event_id, data.error);
+          }
+          console.error('Realtime API error:', data.error);
+          break;
+        }
+        default:
+          break;
+      }
+    } catch (err) {
+      console.warn('Failed to parse ws message', err);
+    }
+  };
+
+  // A client secret always goes in the subprotocol, like the key with bearer auth
+  const openSocket = (events: TranscriptionProviderEvents, clientSecret?: string) => {
+    log('Connecting to realtime WS at', connection.realtimeUrl);
+    let socket: WebSocket;
+    try {
+      socket =
+        clientSecret || connection.authScheme === 'bearer'
+          ? new WebSocket(
+              connection.realtimeUrl,
+              ['realtime', `openai-insecure-api-key.${clientSecret ?? apiKey}`, 'openai-beta.realtime-v1']
+            )
+          : // Azure and proxies expect the key in a header rather than a subprotocol
+            new WebSocket(connection.realtimeUrl, ['realtime', 'openai-beta.realtime-v1'], {
+              headers: openAIAuthHeaders(connection, apiKey),
+            });
+    } catch (error) {
+      // E.g. a custom auth header without a name; reported like a socket that failed to open
+      console.error('Failed to open realtime WS:', error);
+      events.onError(error);
+      events.onClose();
+      return;
+    }
+    ws = socket;
+
+    socket.onopen = () => {
+      log('WebSocket open');
+      sendSessionConfig();
+      events.onOpen();
+    };
+    socket.onmessage = (e) => handleMessage(events, e);
+    socket.onerror = (e: any) => {
+      console.error('WS error', e.message ?? e);
+      events.onError(e);
+    };
+    socket.onclose = (ev) => {
+      log('WS closed', ev.code, ev.reason);
+      if (ws === socket) {
+        ws = null;
+      }
+      events.onClose(ev.code, ev.reason);
+    };
+  };
+
+  return {
+    supportsServerTurnDetection: true,
+    connect: (events) => {
+      if (!tokenSource) {
+        openSocket(events);
+        return;
+      }
+      // A failed request counts as a dropped connection, so it is retried with backoff
+      log('Requesting realtime client secret from token broker');
+      awaitingToken = events;
+      tokenSource
+        .getToken()
+        .then((token) => {
+          if (awaitingToken !== events) return; // Closed meanwhile, see close()
+          awaitingToken = null;
+          openSocket(events, token.value);
+        })
+        .catch((error) => {
+          if (awaitingToken !== events) return;
+          awaitingToken = null;
+          console.error('Failed to get realtime token:', error);
+          events.onError(error);
+          events.onClose();
+        });
+    },
+    isOpen: () => ws?.readyState === WebSocket.OPEN,
+    updateSession: (newConfig) => {
+      sessionConfig = newConfig;
+      sendSessionConfig();
+    },
+    appendAudio: (base64Pcm) => send({ type: 'input_audio_buffer.append', audio: base64Pcm }),
+    commit: () => {
+      commitCount += 1;
+      const commitId = `commit-${commitCount}`;
+      if (ws?.readyState === WebSocket.OPEN) {
+        unacknowledgedCommits.push(commitId);
+      }
+      send({ type: 'input_audio_buffer.commit', event_id: commitId });
+      return commitId;
+    },
+    close: () => {
+      // Without a socket yet there is nothing to report the close, so do it here
+      const pendingEvents = awaitingToken;
+      awaitingToken = null;
+      ws?.close();
+      pendingEvents?.onClose();
+    },
+  };
+}
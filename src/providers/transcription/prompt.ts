@@ -0,0 +1,16 @@
+// Combine free-text context and a vocabulary list into the transcription `prompt`
+export const buildTranscriptionPrompt = (prompt: string, vocabulary: string[]): string => {
+  const terms = vocabulary.map((term) => term.trim()).filter(Boolean);
+  const parts = [prompt.trim()];
+  if (terms.length > 0) {
+    parts.push(`Vocabulary: ${terms.join(', ')}.`);
+  }
+  return parts.filter(Boolean).join('\n');
+};
+
+// Vocabulary is edited as one text field, one term per line or comma separated
+export const parseVocabulary = (text: string): string[] =>
+  text
+    .split(/[\n,]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
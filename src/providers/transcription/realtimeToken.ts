@@ -0,0 +1,96 @@
+// Short-lived realtime client secrets minted by a token broker (e.g. our own backend),
+// so the phone never holds the long-lived API key. See scripts/realtime-token-broker.js.
+
+// A secret is replaced this long before it expires so a connect never uses a stale one
+export const TOKEN_REFRESH_MARGIN_MS = 15000;
+
+export interface RealtimeToken {
+  value: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// Accepts OpenAI's transcription session response ({ client_secret: { value, expires_at } })
+// as well as the client secrets response ({ value, expires_at }), passed through by the broker
+export const parseRealtimeToken = (body: any): RealtimeToken => {
+  const secret = body?.client_secret ?? body;
+  if (typeof secret?.value !== 'string' || typeof secret?.expires_at !== 'number') {
+    throw new Error('Token broker returned no client secret.');
+  }
+  return { value: secret.value, expiresAt: secret.expires_at * 1000 };
+};
+
+// The session is configured over the socket afterwards, so the request carries no settings
+export async function fetchRealtimeToken(brokerUrl: string): Promise<RealtimeToken> {
+  const response = await fetch(brokerUrl, { method: 'POST' });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`Token broker error: ${response.status} ${errText}`);
+  }
+
+  return parseRealtimeToken(await response.json());
+}
+
+interface Options {
+  brokerUrl: string;
+  now?: () => number;
+}
+
+// Hands out a valid secret, minting a new one when the cached one is about to expire.
+// While scheduled, the next secret is fetched ahead of time so reconnects don't wait for the broker.
+export function createRealtimeTokenSource({ brokerUrl, now = Date.now }: Options) {
+  let token: RealtimeToken | null = null;
+  let pending: Promise<RealtimeToken> | null = null;
+  let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+  let isScheduled = false;
+
+  const isFresh = (candidate: RealtimeToken | null): candidate is RealtimeToken =>
+    !!candidate && candidate.expiresAt - now() > TOKEN_REFRESH_MARGIN_MS;
+
+  const clearRefresh = () => {
+    if (refreshTimeout) {
+      clearTimeout(refreshTimeout);
+      refreshTimeout = null;
+    }
+  };
+
+  const scheduleRefresh = () => {
+    clearRefresh();
+    if (!isScheduled || !token) return;
+    const delay = Math.max(token.expiresAt - now() - TOKEN_REFRESH_MARGIN_MS, 0);
+    refreshTimeout = setTimeout(() => {
+      refreshTimeout = null;
+      mint().catch((error) => console.error('Failed to refresh realtime token:', error));
+    }, delay);
+  };
+
+  const mint = () => {
+    if (!pending) {
+      pending = fetchRealtimeToken(brokerUrl)
+        .then((minted) => {
+          token = minted;
+          scheduleRefresh();
+          return minted;
+        })
+        .finally(() => {
+          pending = null;
+        });
+    }
+    return pending;
+  };
+
+  return {
+    getToken: (): Promise<RealtimeToken> => (isFresh(token) ? Promise.resolve(token) : mint()),
+    // Keep a fresh secret at hand until stopped
+    start: () => {
+      isScheduled = true;
+      scheduleRefresh();
+    },
+    stop: () => {
+      isScheduled = false;
+      clearRefresh();
+    },
+  };
+}
+
+export type RealtimeTokenSource = ReturnType<typeof createRealtimeTokenSource>;
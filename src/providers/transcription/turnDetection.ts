@@ -0,0 +1,57 @@
+import { TurnDetection } from './types';
+
+export const TURN_DETECTION_MODES = [
+  { label: 'Manual (auto-commit timer)', value: 'manual' },
+  { label: 'On-device VAD (commit on pauses)', value: 'local_vad' },
+  { label: 'Server VAD (silence based)', value: 'server_vad' },
+  { label: 'Semantic VAD (end of thought)', value: 'semantic_vad' },
+];
+
+export const SEMANTIC_VAD_EAGERNESS = [
+  { label: 'Auto', value: 'auto' },
+  { label: 'Low (waits longer)', value: 'low' },
+  { label: 'Medium', value: 'medium' },
+  { label: 'High (commits quickly)', value: 'high' },
+];
+
+export const DEFAULT_SERVER_VAD: Extract<TurnDetection, { type: 'server_vad' }> = {
+  type: 'server_vad',
+  threshold: 0.5,
+  prefixPaddingMs: 300,
+  silenceDurationMs: 500,
+};
+
+export const DEFAULT_SEMANTIC_VAD: Extract<TurnDetection, { type: 'semantic_vad' }> = {
+  type: 'semantic_vad',
+  eagerness: 'auto',
+};
+
+export const DEFAULT_LOCAL_VAD: Extract<TurnDetection, { type: 'local_vad' }> = {
+  type: 'local_vad',
+  energyThreshold: 0.02,
+  hangoverMs: 700,
+};
+
+export const MANUAL_TURN_DETECTION: TurnDetection = { type: 'manual' };
+
+// Shape expected by the Realtime API's `turn_detection` session field
+export const toRealtimeTurnDetection = (turnDetection: TurnDetection) => {
+  switch (turnDetection.type) {
+    case 'server_vad':
+      return {
+        type: 'server_vad',
+        threshold: turnDetection.threshold,
+        prefix_padding_ms: turnDetection.prefixPaddingMs,
+        silence_duration_ms: turnDetection.silenceDurationMs,
+      };
+    case 'semantic_vad':
+      return {
+        type: 'semantic_vad',
+        eagerness: turnDetection.eagerness,
+      };
+    case 'manual':
+    case 'local_vad':
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,58 @@
+import { TokenLogprob } from '../../hooks/useRealtimeTranscription';
+import { OpenAIConnection } from '../openAIConnection';
+import { RealtimeTokenSource } from './realtimeToken';
+
+export type SemanticVadEagerness = 'low' | 'medium' | 'high' | 'auto';
+
+// How speech is split into segments. 'manual' commits on the app's own timer or taps,
+// 'local_vad' commits when the on-device detector hears a pause. Backends see both as manual.
+export type TurnDetection =
+  | { type: 'manual' }
+  | { type: 'local_vad'; energyThreshold: number; hangoverMs: number }
+  | { type: 'server_vad'; threshold: number; prefixPaddingMs: number; silenceDurationMs: number }
+  | { type: 'semantic_vad'; eagerness: SemanticVadEagerness };
+
+export interface TranscriptionSessionConfig {
+  model: string;
+  turnDetection?: TurnDetection; // Defaults to manual
+  language?: string; // ISO 639-1 code of the spoken language, omitted for auto-detection
+  prompt?: string; // Context and vocabulary to steer recognition of domain terms
+}
+
+export interface TranscriptionResult {
+  transcript: string;
+  logprobs?: TokenLogprob[]; // Token-level confidence scores, when the backend reports them
+  commitId?: string; // The commit this transcribes, see TranscriptionProvider.commit
+}
+
+export interface TranscriptionProviderEvents {
+  onOpen: () => void;
+  onClose: (code?: number, reason?: string) => void;
+  onError: (error: unknown) => void;
+  onDelta: (delta: string) => void;
+  onCompleted: (result: TranscriptionResult) => void;
+  onFailed?: (commitId: string, error: unknown) => void; // A commit that will never be transcribed
+  onSpeechStarted?: () => void; // Only reported when the backend does turn detection
+  onSpeechStopped?: (commitId: string) => void; // The backend commits the turn under this id
+}
+
+// A speech-to-text backend fed with 16kHz mono 16-bit PCM chunks
+export interface TranscriptionProvider {
+  supportsServerTurnDetection: boolean;
+  connect: (events: TranscriptionProviderEvents) => void;
+  isOpen: () => boolean;
+  updateSession: (config: TranscriptionSessionConfig) => void;
+  appendAudio: (base64Pcm: string) => void;
+  commit: () => string; // Id that the commit's completed or failed event refers to
+  close: () => void;
+}
+
+export type TranscriptionBackend = 'openai-realtime' | 'local-server';
+
+export interface TranscriptionProviderSettings {
+  backend: TranscriptionBackend;
+  apiKey: string;
+  openAIConnection?: Partial<OpenAIConnection>; // Endpoint and auth overrides for OpenAI Realtime
+  realtimeTokenSource?: RealtimeTokenSource; // Outlives single connections so reconnects reuse its secret
+  localServerUrl?: string; // Base URL of a self-hosted OpenAI-compatible server, e.g. http://192.168.1.10:8000
+}
@@ -0,0 +1,55 @@
+import { TranslationProvider } from './types';
+
+export const DEEPL_FREE_API_URL = 'https://api-free.deepl.com';
+
+// DeepL wants regional variants for a few target languages
+const DEEPL_TARGET_OVERRIDES: { [key: string]: string } = {
+  en: 'EN-US',
+  pt: 'PT-PT',
+  zh: 'ZH-HANS',
+  no: 'NB',
+};
+
+const toDeepLTarget = (languageCode: string) =>
+  DEEPL_TARGET_OVERRIDES[languageCode] ?? languageCode.toUpperCase();
+
+interface Options {
+  baseUrl?: string; // Defaults to the DeepL free API, use https://api.deepl.com for Pro
+  apiKey: string;
+}
+
+// DeepL-compatible API (POST /v2/translate)
+export function createDeepLProvider({ baseUrl, apiKey }: Options): TranslationProvider {
+  const endpoint = `${(baseUrl || DEEPL_FREE_API_URL).replace(/\/+$/, '')}/v2/translate`;
+
+  return {
+    backend: 'deepl',
+    translate: async ({ text, targetLanguageCode, sourceLanguageCode, signal }) => {
+      if (!apiKey) {
+        throw new Error('DeepL API key is not set.');
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `DeepL-Auth-Key ${apiKey}`,
+        },
+        body: JSON.stringify({
+          text: [text],
+          target_lang: toDeepLTarget(targetLanguageCode),
+          ...(sourceLanguageCode ? { source_lang: sourceLanguageCode.toUpperCase() } : {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`DeepL API error: ${response.status} ${errText}`);
+      }
+
+      const data = await response.json();
+      return (data.translations?.[0]?.text ?? '').trim();
+    },
+  };
+}
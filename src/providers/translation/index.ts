@@ -0,0 +1,35 @@
+import { createDeepLProvider } from './deepLProvider';
+import { createLibreTranslateProvider } from './libreTranslateProvider';
+import { createOpenAIChatProvider } from './openAIChatProvider';
+import { resolveOpenAIConnection } from '../openAIConnection';
+import { TranslationProvider, TranslationProviderSettings } from './types';
+
+export * from './types';
+export { DEEPL_FREE_API_URL } from './deepLProvider';
+
+export const TRANSLATION_BACKENDS = [
+  { label: 'OpenAI (GPT-4o)', value: 'openai-chat' },
+  { label: 'LibreTranslate', value: 'libretranslate' },
+  { label: 'DeepL', value: 'deepl' },
+];
+
+export function createTranslationProvider(settings: TranslationProviderSettings): TranslationProvider {
+  switch (settings.backend) {
+    case 'libretranslate':
+      return createLibreTranslateProvider({
+        baseUrl: settings.libreTranslateUrl ?? '',
+        apiKey: settings.libreTranslateApiKey,
+      });
+    case 'deepl':
+      return createDeepLProvider({
+        baseUrl: settings.deepLUrl,
+        apiKey: settings.deepLApiKey ?? '',
+      });
+    case 'openai-chat':
+    default:
+      return createOpenAIChatProvider({
+        apiKey: settings.apiKey,
+        connection: resolveOpenAIConnection(settings.openAIConnection),
+      });
+  }
+}
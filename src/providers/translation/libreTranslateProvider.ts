@@ -0,0 +1,43 @@
+import { TranslationProvider } from './types';
+
+interface Options {
+  baseUrl: string; // e.g. http://localhost:5000
+  apiKey?: string; // Only needed for instances that require keys
+}
+
+// LibreTranslate-compatible HTTP API (POST /translate)
+export function createLibreTranslateProvider({ baseUrl, apiKey }: Options): TranslationProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/translate`;
+
+  return {
+    backend: 'libretranslate',
+    translate: async ({ text, targetLanguageCode, sourceLanguageCode, signal }) => {
+      if (!baseUrl) {
+        throw new Error('LibreTranslate URL is not set.');
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          q: text,
+          source: sourceLanguageCode || 'auto',
+          target: targetLanguageCode,
+          format: 'text',
+          ...(apiKey ? { api_key: apiKey } : {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`LibreTranslate error: ${response.status} ${errText}`);
+      }
+
+      const data = await response.json();
+      return (data.translatedText ?? '').trim();
+    },
+  };
+}
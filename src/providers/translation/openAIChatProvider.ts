@@ -0,0 +1,89 @@
+import { OpenAIConnection, openAIAuthHeaders } from '../openAIConnection';
+import { EventStreamHttpError, postEventStream } from '../serverSentEvents';
+import { TranslationContextEntry, TranslationProvider } from './types';
+
+const TRANSLATION_MODEL = 'gpt-4o';
+
+interface Options {
+  apiKey: string;
+  connection: OpenAIConnection;
+}
+
+// Earlier segments go into the system prompt so only the new text is translated
+const formatContext = (context: TranslationContextEntry[]) =>
+  [
+    'The text continues a conversation. Use the earlier segments below only to keep pronouns, gender and terminology consistent; do not translate or repeat them.',
+    ...context.map(({ text, translation }) =>
+      translation ? `Segment: ${text}\nTranslation: ${translation}` : `Segment: ${text}`
+    ),
+  ].join('\n\n');
+
+// Translation through an OpenAI chat model
+export function createOpenAIChatProvider({ apiKey, connection }: Options): TranslationProvider {
+  return {
+    backend: 'openai-chat',
+    translate: async ({ text, targetLanguageName, onPartial, signal, context, onUsage }) => {
+      if (!apiKey) {
+        throw new Error('API key is not set.');
+      }
+
+      let systemPrompt = `You are a helpful assistant. Translate the following text accurately to ${targetLanguageName}. Output only the translated text.`;
+      if (context?.length) {
+        systemPrompt += `\n\n${formatContext(context)}`;
+      }
+      const messages = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: text },
+      ];
+
+      // Streamed so the translation can be shown while it is written
+      let translated = '';
+      try {
+        await postEventStream({
+          url: connection.chatCompletionsUrl,
+          headers: {
+            'Content-Type': 'application/json',
+            ...openAIAuthHeaders(connection, apiKey),
+          },
+          body: JSON.stringify({
+            model: TRANSLATION_MODEL,
+            messages: messages,
+            temperature: 0.3,
+            stream: true,
+            // Adds a final chunk with the token counts
+            stream_options: { include_usage: true },
+          }),
+          signal,
+          onEvent: (data) => {
+            if (data === '[DONE]') return;
+            let chunk;
+            try {
+              chunk = JSON.parse(data);
+            } catch {
+              throw new Error(`OpenAI API returned an unreadable chunk: ${data}`);
+            }
+            if (chunk.usage) {
+              onUsage?.({
+                model: TRANSLATION_MODEL,
+                promptTokens: chunk.usage.prompt_tokens ?? 0,
+                completionTokens: chunk.usage.completion_tokens ?? 0,
+              });
+            }
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              translated += delta;
+              onPartial?.(translated.trimStart());
+            }
+          },
+        });
+      } catch (error) {
+        if (error instanceof EventStreamHttpError) {
+          throw new Error(`OpenAI API error: ${error.status} ${error.body}`);
+        }
+        throw error;
+      }
+
+      return translated.trim();
+    },
+  };
+}
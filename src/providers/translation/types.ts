@@ -0,0 +1,41 @@
+import { OpenAIConnection } from '../openAIConnection';
+
+// An earlier segment of the conversation, sent along to keep translations consistent
+export interface TranslationContextEntry {
+  text: string;
+  translation?: string; // Its accepted translation into the same target language, if any
+}
+
+export interface TranslationRequest {
+  text: string;
+  targetLanguageCode: string; // ISO 639-1, as used by LANGUAGES
+  targetLanguageName: string; // Human readable, used in LLM prompts
+  sourceLanguageCode?: string; // Omitted when the backend should detect it
+  onPartial?: (text: string) => void; // Called with the text so far by backends that stream
+  signal?: AbortSignal; // Aborting rejects the pending translate call
+  context?: TranslationContextEntry[]; // Oldest first; backends without prompts ignore it
+  onUsage?: (usage: TranslationUsage) => void; // Token counts, from backends that bill by token
+}
+
+export interface TranslationUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface TranslationProvider {
+  backend: TranslationBackend;
+  translate: (request: TranslationRequest) => Promise<string>;
+}
+
+export type TranslationBackend = 'openai-chat' | 'libretranslate' | 'deepl';
+
+export interface TranslationProviderSettings {
+  backend: TranslationBackend;
+  apiKey: string; // OpenAI API key
+  openAIConnection?: Partial<OpenAIConnection>; // Endpoint and auth overrides for OpenAI chat
+  libreTranslateUrl?: string;
+  libreTranslateApiKey?: string;
+  deepLUrl?: string;
+  deepLApiKey?: string;
+}
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { Transcript } from '../hooks/useRealtimeTranscription';
+import { findLanguageByFrancCode, getLanguageLabel, isRightToLeft } from '../constants/languages';
+import { DEFAULT_DETECTION_CONFIDENCE, detectLanguage } from '../utils/languageDetection';
+
+interface Props {
+  transcripts: Transcript[]; // Newest first
+  interimTranscript: string;
+  languages: [string, string]; // Bottom half (device owner), top half (person opposite)
+  isRecording: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onClose: () => void;
+}
+
+const spokenLanguage = (transcript: Transcript) =>
+  findLanguageByFrancCode(transcript.detectedLanguage ?? '')?.iso6391;
+
+interface HalfProps {
+  language: string;
+  transcripts: Transcript[];
+  interimTranscript: string; // Only given to the half of the current speaker
+}
+
+// One reader's side: everything in their language, their own segments on the right.
+// Until a translation arrives the source text is shown greyed out.
+const ConversationHalf: React.FC<HalfProps> = ({ language, transcripts, interimTranscript }) => {
+  const rightToLeft = isRightToLeft(language);
+
+  const renderSegment = ({ item }: { item: Transcript }) => {
+    const isOwn = spokenLanguage(item) === language;
+    const text = isOwn ? item.text : item.translations?.[language]?.text;
+
+    return (
+      <View style={[styles.bubble, isOwn ? styles.ownBubble : styles.otherBubble]}>
+        <Text
+          style={[
+            styles.bubbleText,
+            !text && styles.pendingText,
+            !!text && rightToLeft && styles.rightToLeftText,
+          ]}
+        >
+          {text || item.text}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.half}>
+      <Text style={styles.halfLanguage}>{getLanguageLabel(language)}</Text>
+      {/* Inverted so the newest segment sits at the bottom and stays in view */}
+      <FlatList
+        data={transcripts}
+        renderItem={renderSegment}
+        keyExtractor={(item) => item.id}
+        inverted
+        ListHeaderComponent={
+          interimTranscript ? (
+            <View style={[styles.bubble, styles.ownBubble]}>
+              <Text style={[styles.bubbleText, styles.pendingText]}>{interimTranscript}</Text>
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  );
+};
+
+// Split screen for two people across a table; the top half faces the person opposite
+const ConversationScreen: React.FC<Props> = ({
+  transcripts,
+  interimTranscript,
+  languages,
+  isRecording,
+  onStartRecording,
+  onStopRecording,
+  onClose,
+}) => {
+  const [swapped, setSwapped] = useState(false);
+  const [bottomLanguage, topLanguage] = swapped ? [languages[1], languages[0]] : languages;
+
+  // Live text goes to whoever seems to be talking, falling back to the last speaker
+  const interimLanguage = interimTranscript
+    ? findLanguageByFrancCode(
+        detectLanguage(interimTranscript, {
+          candidates: [bottomLanguage, topLanguage],
+          minConfidence: DEFAULT_DETECTION_CONFIDENCE,
+          fallback: transcripts[0]?.detectedLanguage,
+        }).francCode
+      )?.iso6391
+    : undefined;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.halfContainer, styles.rotated]}>
+        <ConversationHalf
+          language={topLanguage}
+          transcripts={transcripts}
+          interimTranscript={interimLanguage === topLanguage ? interimTranscript : ''}
+        />
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlButton} onPress={onClose}>
+          <Text style={styles.controlButtonText}>✕</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.recordButton, isRecording && styles.recordButtonActive]}
+          onPress={isRecording ? onStopRecording : onStartRecording}
+        >
+          <Text style={styles.recordButtonText}>{isRecording ? '⏹️ Stop' : '🎙️ Start'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={() => setSwapped(!swapped)}>
+          <Text style={styles.controlButtonText}>⇅</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.halfContainer}>
+        <ConversationHalf
+          language={bottomLanguage}
+          transcripts={transcripts}
+          interimTranscript={interimLanguage === topLanguage ? '' : interimTranscript}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  halfContainer: {
+    flex: 1,
+  },
+  rotated: {
+    transform: [{ rotate: '180deg' }],
+  },
+  half: {
+    flex: 1,
+    padding: 12,
+  },
+  halfLanguage: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#666',
+    marginBottom: 4,
+  },
+  bubble: {
+    maxWidth: '85%',
+    marginVertical: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  ownBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#e3f2fd',
+  },
+  otherBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f1f1f1',
+  },
+  bubbleText: {
+    fontSize: 20,
+    color: '#222',
+  },
+  pendingText: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  rightToLeftText: {
+    writingDirection: 'rtl',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#ddd',
+  },
+  controlButton: {
+    padding: 8,
+  },
+  controlButtonText: {
+    fontSize: 20,
+  },
+  recordButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#4caf50',
+  },
+  recordButtonActive: {
+    backgroundColor: '#f44336',
+  },
+  recordButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
+
+export default ConversationScreen;
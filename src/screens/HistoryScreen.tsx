@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+} from 'react-native';
+import { Session } from '../storage/sessionStorage';
+import { SavedExport } from '../export';
+
+interface Props {
+  sessions: Session[];
+  activeSessionId: string | null;
+  onOpen: (sessionId: string) => void;
+  onResume: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+  importableFiles: SavedExport[]; // Saved JSON exports
+  onImport: (path: string) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (session: Session): string => {
+  if (!session.endedAt) {
+    return '';
+  }
+  const minutes = Math.max(
+    1,
+    Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 60000)
+  );
+  return ` · ${minutes} min`;
+};
+
+const HistoryScreen: React.FC<Props> = ({
+  sessions,
+  activeSessionId,
+  onOpen,
+  onResume,
+  onRename,
+  onDelete,
+  importableFiles,
+  onImport,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (session: Session) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const submitRename = () => {
+    if (editingId) {
+      onRename(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const renderSession = ({ item }: { item: Session }) => {
+    const isActive = item.id === activeSessionId;
+    const isEditing = item.id === editingId;
+
+    return (
+      <View style={[styles.sessionItem, isActive && styles.sessionItemActive]}>
+        {isEditing ? (
+          <View style={styles.renameRow}>
+            <TextInput
+              style={styles.renameInput}
+              value={draftTitle}
+              onChangeText={setDraftTitle}
+              onSubmitEditing={submitRename}
+              autoFocus
+            />
+            <TouchableOpacity style={styles.sessionButton} onPress={submitRename}>
+              <Text style={styles.sessionButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity onPress={() => onOpen(item.id)}>
+            <Text style={styles.sessionTitle}>{item.title}</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.sessionMeta}>
+          {item.startedAt.toLocaleString()}
+          {formatDuration(item)}
+          {` · ${item.languages.map((code) => code.toUpperCase()).join('/')} · ${item.model}`}
+        </Text>
+        <Text style={styles.sessionMeta}>
+          {item.transcripts.length} segments{isActive ? ' · open' : ''}
+        </Text>
+
+        <View style={styles.sessionActions}>
+          <TouchableOpacity style={styles.sessionButton} onPress={() => onOpen(item.id)}>
+            <Text style={styles.sessionButtonText}>Open</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.sessionButton} onPress={() => onResume(item.id)}>
+            <Text style={styles.sessionButtonText}>Resume</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.sessionButton} onPress={() => startRename(item)}>
+            <Text style={styles.sessionButtonText}>Rename</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.sessionButton, styles.deleteButton]}
+            onPress={() => onDelete(item.id)}
+          >
+            <Text style={styles.sessionButtonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Sessions</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.closeText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+      {sessions.length === 0 ? (
+        <Text style={styles.emptyText}>No sessions recorded yet.</Text>
+      ) : (
+        <FlatList
+          data={sessions}
+          renderItem={renderSession}
+          keyExtractor={(item) => item.id}
+          scrollEnabled={false}
+        />
+      )}
+
+      {importableFiles.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Import saved export</Text>
+          {importableFiles.map((file) => (
+            <View key={file.path} style={styles.importRow}>
+              <Text style={styles.importName} numberOfLines={1}>
+                {file.name}
+              </Text>
+              <TouchableOpacity style={styles.sessionButton} onPress={() => onImport(file.path)}>
+                <Text style={styles.sessionButtonText}>Import</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: 'black',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#2196f3',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: 'black',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  importRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  importName: {
+    flex: 1,
+    color: '#333',
+  },
+  emptyText: {
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  sessionItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  sessionItemActive: {
+    backgroundColor: '#e8f5e8',
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'black',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  sessionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    backgroundColor: '#4caf50',
+  },
+  deleteButton: {
+    backgroundColor: '#f44336',
+  },
+  sessionButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  renameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 6,
+    color: 'black',
+  },
+});
+
+export default HistoryScreen;
@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PROFILES_STORAGE_KEY = 'transcription_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'active_transcription_profile';
+
+// Context for a kind of meeting: free-text prompt plus domain terms
+export interface TranscriptionProfile {
+  id: string;
+  name: string;
+  prompt: string;
+  vocabulary: string[];
+}
+
+export const DEFAULT_PROFILE: TranscriptionProfile = {
+  id: 'default',
+  name: 'Default',
+  prompt: '',
+  vocabulary: [],
+};
+
+export interface ProfileState {
+  profiles: TranscriptionProfile[];
+  activeProfileId: string;
+}
+
+export async function loadProfiles(): Promise<ProfileState> {
+  const [rawProfiles, activeProfileId] = await Promise.all([
+    AsyncStorage.getItem(PROFILES_STORAGE_KEY),
+    AsyncStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY),
+  ]);
+  const stored: TranscriptionProfile[] = rawProfiles ? JSON.parse(rawProfiles) : [];
+  const profiles = Array.isArray(stored) && stored.length > 0 ? stored : [DEFAULT_PROFILE];
+
+  return {
+    profiles,
+    activeProfileId: profiles.some((p) => p.id === activeProfileId)
+      ? (activeProfileId as string)
+      : profiles[0].id,
+  };
+}
+
+export async function saveProfiles(profiles: TranscriptionProfile[]): Promise<void> {
+  await AsyncStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export async function saveActiveProfileId(profileId: string): Promise<void> {
+  await AsyncStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+}
@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Transcript } from '../hooks/useRealtimeTranscription';
+import { Speaker } from '../utils/speakers';
+import { Usage } from '../utils/usage';
+import {
+  StoredTranscript,
+  deserializeTranscripts,
+  fromStoredTranscript,
+  toStoredTranscript,
+} from './transcriptStorage';
+
+// Each session is stored under its own key, so a change only rewrites that session and no
+// single value grows with the whole library. The index keeps the ids in list order.
+const SESSION_INDEX_STORAGE_KEY = 'session_index';
+const SESSION_STORAGE_KEY_PREFIX = 'session:';
+const ACTIVE_SESSION_STORAGE_KEY = 'active_session_id';
+// Written by earlier versions that kept the whole library in one value
+const LEGACY_SESSIONS_STORAGE_KEY = 'sessions';
+// Written by earlier versions that kept a single implicit session
+const LEGACY_TRANSCRIPTS_STORAGE_KEY = 'transcripts';
+
+const sessionStorageKey = (sessionId: string) => `${SESSION_STORAGE_KEY_PREFIX}${sessionId}`;
+
+export interface Session {
+  id: string;
+  title: string;
+  startedAt: Date;
+  endedAt?: Date;
+  languages: string[]; // ISO 639-1; every segment is auto-translated into the other ones
+  speakers: Speaker[]; // Referenced by Transcript.speaker
+  model: string;
+  usage?: Usage; // Billable audio and tokens, missing for sessions recorded before usage tracking
+  transcripts: Transcript[]; // Newest first, same order as the live list
+}
+
+// Shape of a session as written to AsyncStorage and JSON exports (Dates become ISO strings)
+export type StoredSession = Omit<Session, 'startedAt' | 'endedAt' | 'languages' | 'speakers' | 'transcripts'> & {
+  startedAt: string;
+  endedAt?: string;
+  languages?: string[];
+  speakers?: Speaker[];
+  // Written by versions that only had a Language A/B pair
+  languageA?: string;
+  languageB?: string;
+  transcripts: StoredTranscript[];
+};
+
+export interface SessionLibraryState {
+  sessions: Session[];
+  activeSessionId: string | null;
+}
+
+export const createSessionId = () => `${Date.now()}-${Math.random()}`;
+
+export const defaultSessionTitle = (startedAt: Date) =>
+  `Session ${startedAt.toLocaleString()}`;
+
+export const toStoredSession = (session: Session): StoredSession => ({
+  ...session,
+  startedAt: session.startedAt.toISOString(),
+  endedAt: session.endedAt?.toISOString(),
+  transcripts: session.transcripts.map(toStoredTranscript),
+});
+
+export const fromStoredSession = ({ languageA, languageB, ...stored }: StoredSession): Session => ({
+  ...stored,
+  languages: stored.languages ?? [languageA, languageB].filter((code): code is string => !!code),
+  speakers: stored.speakers ?? [],
+  startedAt: new Date(stored.startedAt),
+  endedAt: stored.endedAt ? new Date(stored.endedAt) : undefined,
+  transcripts: stored.transcripts.map(fromStoredTranscript),
+});
+
+export const serializeSessions = (sessions: Session[]): string =>
+  JSON.stringify(sessions.map(toStoredSession));
+
+export const deserializeSessions = (raw: string): Session[] => {
+  const stored: StoredSession[] = JSON.parse(raw);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return stored.map(fromStoredSession);
+};
+
+// Turn transcripts saved before sessions existed into a session of their own
+const migrateLegacyTranscripts = async (): Promise<Session | null> => {
+  const raw = await AsyncStorage.getItem(LEGACY_TRANSCRIPTS_STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+  const transcripts = deserializeTranscripts(raw);
+  if (transcripts.length === 0) {
+    await AsyncStorage.removeItem(LEGACY_TRANSCRIPTS_STORAGE_KEY);
+    return null;
+  }
+
+  const timestamps = transcripts.map((t) => t.timestamp.getTime());
+  const startedAt = new Date(Math.min(...timestamps));
+  return {
+    id: createSessionId(),
+    title: defaultSessionTitle(startedAt),
+    startedAt,
+    endedAt: new Date(Math.max(...timestamps)),
+    languages: ['de', 'en'],
+    speakers: [],
+    model: 'whisper-1',
+    transcripts,
+  };
+};
+
+// Sessions saved by versions that kept the whole library under one key
+const loadLegacySessions = async (): Promise<Session[] | null> => {
+  const raw = await AsyncStorage.getItem(LEGACY_SESSIONS_STORAGE_KEY);
+  return raw ? deserializeSessions(raw) : null;
+};
+
+const loadIndexedSessions = async (sessionIds: string[]): Promise<Session[]> => {
+  const entries = await AsyncStorage.multiGet(sessionIds.map(sessionStorageKey));
+  return entries
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([, raw]) => fromStoredSession(JSON.parse(raw)));
+};
+
+export async function loadSessionLibrary(): Promise<SessionLibraryState> {
+  const [rawIndex, activeSessionId] = await Promise.all([
+    AsyncStorage.getItem(SESSION_INDEX_STORAGE_KEY),
+    AsyncStorage.getItem(ACTIVE_SESSION_STORAGE_KEY),
+  ]);
+  let sessions = rawIndex ? await loadIndexedSessions(JSON.parse(rawIndex)) : [];
+
+  if (!rawIndex) {
+    const legacySessions = await loadLegacySessions();
+    if (legacySessions) {
+      // Only drop the old key once every session is safely stored under its own
+      await saveSessions(legacySessions);
+      await AsyncStorage.removeItem(LEGACY_SESSIONS_STORAGE_KEY);
+      sessions = legacySessions;
+    }
+  }
+
+  const migrated = await migrateLegacyTranscripts();
+  if (migrated) {
+    const migratedSessions = [migrated, ...sessions];
+    // Only drop the old key once its transcripts are safely stored as a session
+    await saveSessions(migratedSessions, sessions);
+    await AsyncStorage.removeItem(LEGACY_TRANSCRIPTS_STORAGE_KEY);
+    return { sessions: migratedSessions, activeSessionId: migrated.id };
+  }
+
+  return {
+    sessions,
+    activeSessionId: sessions.some((s) => s.id === activeSessionId) ? activeSessionId : null,
+  };
+}
+
+// Writes the sessions that changed since `previous` was saved (sessions are replaced, never
+// mutated, so identity tells), drops the removed ones and updates the index
+export async function saveSessions(sessions: Session[], previous: Session[] = []): Promise<void> {
+  const previousSessions = new Set(previous);
+  const changed = sessions.filter((session) => !previousSessions.has(session));
+  const remainingIds = new Set(sessions.map((session) => session.id));
+  const removedIds = previous
+    .map((session) => session.id)
+    .filter((sessionId) => !remainingIds.has(sessionId));
+
+  if (changed.length > 0) {
+    await AsyncStorage.multiSet(
+      changed.map((session) => [
+        sessionStorageKey(session.id),
+        JSON.stringify(toStoredSession(session)),
+      ])
+    );
+  }
+  await AsyncStorage.setItem(
+    SESSION_INDEX_STORAGE_KEY,
+    JSON.stringify(sessions.map((session) => session.id))
+  );
+  if (removedIds.length > 0) {
+    await AsyncStorage.multiRemove(removedIds.map(sessionStorageKey));
+  }
+}
+
+export async function saveActiveSessionId(sessionId: string | null): Promise<void> {
+  if (sessionId) {
+    await AsyncStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, sessionId);
+  } else {
+    await AsyncStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  }
+}
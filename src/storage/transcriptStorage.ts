@@ -0,0 +1,91 @@
+import {
+  Transcript,
+  TranscriptAlternative,
+  TranscriptTranslation,
+} from '../hooks/useRealtimeTranscription';
+import { LANGUAGE_REGISTRY } from '../constants/languages';
+
+type StoredTranslation = Omit<TranscriptTranslation, 'createdAt'> & { createdAt: string };
+type StoredAlternative = Omit<TranscriptAlternative, 'createdAt'> & { createdAt: string };
+
+// Shape of a transcript as written to AsyncStorage (Dates become ISO strings)
+export type StoredTranscript = Omit<Transcript, 'timestamp' | 'translations' | 'alternatives'> & {
+  timestamp: string;
+  translations?: Record<string, StoredTranslation>;
+  alternatives?: StoredAlternative[];
+  originalText?: string; // Only in data from versions that overwrote `text` with the translation
+};
+
+// Older versions stored `${translation} (${languageName})` in text and the source in originalText
+const LEGACY_TRANSLATION_PATTERN = /^([\s\S]*) \(([^()]+)\)$/;
+
+const migrateLegacyTranslation = (stored: StoredTranscript): StoredTranscript => {
+  const { originalText, ...rest } = stored;
+  if (!originalText) {
+    return rest;
+  }
+
+  const match = stored.text.match(LEGACY_TRANSLATION_PATTERN);
+  const language = match && LANGUAGE_REGISTRY.find((lang) => lang.name === match[2]);
+  return {
+    ...rest,
+    text: originalText,
+    translations: language
+      ? {
+          [language.iso6391]: {
+            text: match[1],
+            provider: 'openai-chat', // The only translation backend at the time
+            createdAt: stored.timestamp,
+          },
+        }
+      : rest.translations,
+  };
+};
+
+export const toStoredTranscript = (transcript: Transcript): StoredTranscript => ({
+  ...transcript,
+  timestamp: transcript.timestamp.toISOString(),
+  translations: transcript.translations
+    ? Object.fromEntries(
+        Object.entries(transcript.translations).map(([code, translation]) => [
+          code,
+          { ...translation, createdAt: translation.createdAt.toISOString() },
+        ])
+      )
+    : undefined,
+  alternatives: transcript.alternatives?.map((alternative) => ({
+    ...alternative,
+    createdAt: alternative.createdAt.toISOString(),
+  })),
+});
+
+export const fromStoredTranscript = (raw: StoredTranscript): Transcript => {
+  const stored = migrateLegacyTranslation(raw);
+  return {
+    ...stored,
+    timestamp: new Date(stored.timestamp),
+    translations: stored.translations
+      ? Object.fromEntries(
+          Object.entries(stored.translations).map(([code, translation]) => [
+            code,
+            { ...translation, createdAt: new Date(translation.createdAt) },
+          ])
+        )
+      : undefined,
+    alternatives: stored.alternatives?.map((alternative) => ({
+      ...alternative,
+      createdAt: new Date(alternative.createdAt),
+    })),
+  };
+};
+
+export const serializeTranscripts = (transcripts: Transcript[]): string =>
+  JSON.stringify(transcripts.map(toStoredTranscript));
+
+export const deserializeTranscripts = (raw: string): Transcript[] => {
+  const stored: StoredTranscript[] = JSON.parse(raw);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return stored.map(fromStoredTranscript);
+};
@@ -0,0 +1,38 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PRICES, PriceTable, Usage } from '../utils/usage';
+
+const MONTHLY_USAGE_STORAGE_KEY = 'usage_by_month';
+const PRICES_STORAGE_KEY = 'usage_prices';
+const MONTHLY_BUDGET_STORAGE_KEY = 'usage_monthly_budget';
+
+export interface UsageState {
+  monthlyUsage: Record<string, Usage>; // By monthKey
+  prices: PriceTable;
+  monthlyBudget: number; // USD, 0 for no cap
+}
+
+export async function loadUsageState(): Promise<UsageState> {
+  const [rawUsage, rawPrices, rawBudget] = await Promise.all([
+    AsyncStorage.getItem(MONTHLY_USAGE_STORAGE_KEY),
+    AsyncStorage.getItem(PRICES_STORAGE_KEY),
+    AsyncStorage.getItem(MONTHLY_BUDGET_STORAGE_KEY),
+  ]);
+  return {
+    monthlyUsage: rawUsage ? JSON.parse(rawUsage) : {},
+    // Models added in later versions get their default price
+    prices: { ...DEFAULT_PRICES, ...(rawPrices ? JSON.parse(rawPrices) : {}) },
+    monthlyBudget: rawBudget ? Number(rawBudget) : 0,
+  };
+}
+
+export async function saveMonthlyUsage(monthlyUsage: Record<string, Usage>): Promise<void> {
+  await AsyncStorage.setItem(MONTHLY_USAGE_STORAGE_KEY, JSON.stringify(monthlyUsage));
+}
+
+export async function savePrices(prices: PriceTable): Promise<void> {
+  await AsyncStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+}
+
+export async function saveMonthlyBudget(monthlyBudget: number): Promise<void> {
+  await AsyncStorage.setItem(MONTHLY_BUDGET_STORAGE_KEY, String(monthlyBudget));
+}
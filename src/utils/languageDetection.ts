@@ -0,0 +1,50 @@
+import { francAll } from 'franc';
+import { UNDETERMINED_LANGUAGE, findLanguage, findLanguageByFrancCode } from '../constants/languages';
+
+// Margin the best language needs over the runner-up (franc scores are 0..1, best = 1)
+export const DEFAULT_DETECTION_CONFIDENCE = 0.15;
+// Shorter text is never scored
+const MIN_DETECTION_LENGTH = 3;
+
+export interface LanguageDetectionOptions {
+  candidates: string[]; // ISO 639-1 codes the speakers are expected to use; empty allows any language
+  minConfidence: number;
+  fallback?: string; // franc code to report when unsure, e.g. the previous segment's language
+}
+
+export interface LanguageDetection {
+  francCode: string;
+  confidence: number; // Margin over the runner-up, 0 when franc can't tell them apart
+  uncertain: boolean; // francCode is the fallback, not what franc found
+}
+
+export const detectLanguage = (
+  text: string,
+  { candidates, minConfidence, fallback }: LanguageDetectionOptions
+): LanguageDetection => {
+  const only = candidates.flatMap((code) => {
+    const language = findLanguage(code);
+    return language ? [language.iso6393, ...(language.francAliases ?? [])] : [];
+  });
+  const scores = francAll(text, {
+    only: only.length > 0 ? only : undefined,
+    minLength: MIN_DETECTION_LENGTH,
+  });
+
+  // Variants of one language (Bokmål/Nynorsk) shouldn't compete with each other
+  const bestPerLanguage = new Map<string, [string, number]>();
+  for (const [code, score] of scores) {
+    const key = findLanguageByFrancCode(code)?.iso6391 ?? code;
+    if (!bestPerLanguage.has(key)) {
+      bestPerLanguage.set(key, [code, score]);
+    }
+  }
+  const [best, runnerUp] = Array.from(bestPerLanguage.values());
+
+  const confidence =
+    best && best[0] !== UNDETERMINED_LANGUAGE ? best[1] - (runnerUp?.[1] ?? 0) : 0;
+  if (best && confidence > 0 && confidence >= minConfidence) {
+    return { francCode: best[0], confidence, uncertain: false };
+  }
+  return { francCode: fallback ?? UNDETERMINED_LANGUAGE, confidence, uncertain: true };
+};
@@ -0,0 +1,47 @@
+import { Buffer } from 'buffer';
+import RNFS from 'react-native-fs';
+import { Transcript, TranscriptAudio } from '../hooks/useRealtimeTranscription';
+import { encodeWav, findWavDataOffset } from './wav';
+
+// Enough to get past any chunks a recorder writes before the PCM data
+const HEADER_PROBE_BYTES = 8192;
+
+// react-native-audio-record writes wavFile into the documents directory on both platforms.
+// Only the file name is stored, the container path can change between app updates on iOS.
+export const sessionAudioPath = (fileName: string) => `${RNFS.DocumentDirectoryPath}/${fileName}`;
+
+export const createRecordingFileName = () => `recording-${Date.now()}.wav`;
+
+// PCM of one segment, cut out of the recording it belongs to
+export const readSegmentPcm = async (audio: TranscriptAudio): Promise<Buffer> => {
+  const path = sessionAudioPath(audio.fileName);
+  if (!(await RNFS.exists(path))) {
+    throw new Error('The recording is saved once recording stops.');
+  }
+
+  const header = Buffer.from(await RNFS.read(path, HEADER_PROBE_BYTES, 0, 'base64'), 'base64');
+  const dataOffset = findWavDataOffset(header);
+  const pcm = await RNFS.read(path, audio.endByte - audio.startByte, dataOffset + audio.startByte, 'base64');
+  return Buffer.from(pcm, 'base64');
+};
+
+// Write a segment as a standalone WAV so it can be played back on its own.
+// Each segment gets its own file, so writing one never touches a file another is playing from.
+export const writeSegmentWav = async (audio: TranscriptAudio): Promise<string> => {
+  const wav = encodeWav(await readSegmentPcm(audio));
+  const recordingName = audio.fileName.replace(/\.wav$/, '');
+  const path = `${RNFS.CachesDirectoryPath}/segment-${recordingName}-${audio.startByte}-${audio.endByte}.wav`;
+  await RNFS.writeFile(path, wav.toString('base64'), 'base64');
+  return path;
+};
+
+// Remove the recordings behind a set of transcripts, e.g. when their session is deleted
+export const deleteRecordings = async (transcripts: Transcript[]): Promise<void> => {
+  const fileNames = new Set(transcripts.flatMap((t) => (t.audio ? [t.audio.fileName] : [])));
+  for (const fileName of fileNames) {
+    const path = sessionAudioPath(fileName);
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+  }
+};
@@ -0,0 +1,34 @@
+import { Transcript } from '../hooks/useRealtimeTranscription';
+import { findLanguageByFrancCode } from '../constants/languages';
+
+export interface Speaker {
+  id: string;
+  name: string;
+  color: string;
+  language?: string; // ISO 639-1; segments in this language are attributed to the speaker
+}
+
+export const SPEAKER_COLORS = ['#1e88e5', '#e53935', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#6d4c41'];
+
+export const createSpeaker = (existing: Speaker[], language?: string): Speaker => ({
+  id: `${Date.now()}-${Math.random()}`,
+  name: `Speaker ${existing.length + 1}`,
+  color: SPEAKER_COLORS[existing.length % SPEAKER_COLORS.length],
+  language,
+});
+
+export const findSpeaker = (speakers: Speaker[], speakerId?: string): Speaker | undefined =>
+  speakerId ? speakers.find((speaker) => speaker.id === speakerId) : undefined;
+
+// Only decides when exactly one speaker uses the detected language
+export const speakerForLanguage = (speakers: Speaker[], francCode?: string): Speaker | undefined => {
+  const language = francCode ? findLanguageByFrancCode(francCode)?.iso6391 : undefined;
+  const matches = language ? speakers.filter((speaker) => speaker.language === language) : [];
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+// "Anna: Hallo" when the segment has a known speaker
+export const withSpeakerName = (speakers: Speaker[], transcript: Transcript, text: string) => {
+  const speaker = findSpeaker(speakers, transcript.speaker);
+  return speaker ? `${speaker.name}: ${text}` : text;
+};
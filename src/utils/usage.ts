@@ -0,0 +1,102 @@
+// Billable usage: seconds of audio streamed for transcription and chat tokens, per model
+
+export interface TokenCounts {
+  prompt: number;
+  completion: number;
+}
+
+export interface Usage {
+  audioSeconds: Record<string, number>;
+  tokens: Record<string, TokenCounts>;
+}
+
+export type UsageEvent =
+  | { kind: 'audio'; model: string; seconds: number }
+  | { kind: 'tokens'; model: string; promptTokens: number; completionTokens: number };
+
+// USD. Audio models are billed per minute, chat models per million tokens.
+export interface ModelPrice {
+  audioPerMinute?: number;
+  promptPerMillion?: number;
+  completionPerMillion?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// OpenAI list prices at the time of writing; editable in settings
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-transcribe': { audioPerMinute: 0.006 },
+  'gpt-4o-mini-transcribe': { audioPerMinute: 0.003 },
+  'whisper-1': { audioPerMinute: 0.006 },
+  'gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 },
+};
+
+export const emptyUsage = (): Usage => ({ audioSeconds: {}, tokens: {} });
+
+export const addUsage = (usage: Usage | undefined, event: UsageEvent): Usage => {
+  const base = usage ?? emptyUsage();
+  if (event.kind === 'audio') {
+    return {
+      ...base,
+      audioSeconds: {
+        ...base.audioSeconds,
+        [event.model]: (base.audioSeconds[event.model] ?? 0) + event.seconds,
+      },
+    };
+  }
+  const previous = base.tokens[event.model] ?? { prompt: 0, completion: 0 };
+  return {
+    ...base,
+    tokens: {
+      ...base.tokens,
+      [event.model]: {
+        prompt: previous.prompt + event.promptTokens,
+        completion: previous.completion + event.completionTokens,
+      },
+    },
+  };
+};
+
+const sumByModel = <T>(a: Record<string, T>, b: Record<string, T>, add: (x: T, y: T) => T) =>
+  Object.entries(b).reduce(
+    (sum, [model, value]) => ({ ...sum, [model]: model in sum ? add(sum[model], value) : value }),
+    a
+  );
+
+// Combined totals, e.g. of stored usage and usage recorded since
+export const mergeUsage = (a: Usage | undefined, b: Usage | undefined): Usage => {
+  const first = a ?? emptyUsage();
+  const second = b ?? emptyUsage();
+  return {
+    audioSeconds: sumByModel(first.audioSeconds, second.audioSeconds, (x, y) => x + y),
+    tokens: sumByModel(first.tokens, second.tokens, (x, y) => ({
+      prompt: x.prompt + y.prompt,
+      completion: x.completion + y.completion,
+    })),
+  };
+};
+
+// Models without a price count as free
+export const estimateCost = (usage: Usage | undefined, prices: PriceTable): number => {
+  if (!usage) {
+    return 0;
+  }
+  const audio = Object.entries(usage.audioSeconds).reduce(
+    (sum, [model, seconds]) => sum + (seconds / 60) * (prices[model]?.audioPerMinute ?? 0),
+    0
+  );
+  const tokens = Object.entries(usage.tokens).reduce(
+    (sum, [model, { prompt, completion }]) =>
+      sum +
+      (prompt / 1e6) * (prices[model]?.promptPerMillion ?? 0) +
+      (completion / 1e6) * (prices[model]?.completionPerMillion ?? 0),
+    0
+  );
+  return audio + tokens;
+};
+
+// "2024-05", in local time
+export const monthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
@@ -0,0 +1,129 @@
+import { Buffer } from 'buffer';
+import { SAMPLE_RATE } from './wav';
+
+export type VadEvent = 'speech_start' | 'speech_end';
+
+export interface VadOptions {
+  energyThreshold: number; // Minimum normalized RMS (0-1) that counts as speech
+  hangoverMs: number; // Silence needed after speech before the turn ends
+  minSpeechMs?: number; // Speech needed before a turn starts, filters clicks and bumps
+  sampleRate?: number;
+}
+
+const FRAME_MS = 20;
+// Fricatives ("s", "f") are quiet but cross zero often - accept them at lower energy
+const FRICATIVE_ZCR_MIN = 0.25;
+const FRICATIVE_ZCR_MAX = 0.6;
+const FRICATIVE_ENERGY_FACTOR = 0.5;
+// The noise floor follows background level slowly, speech must stand out from it
+const NOISE_FLOOR_ADAPTATION = 0.05;
+const NOISE_FLOOR_MARGIN = 3;
+
+export interface FrameFeatures {
+  energy: number; // Normalized RMS, 0-1
+  zeroCrossingRate: number; // Sign changes per sample, 0-1
+}
+
+export const analyzeFrame = (pcm: Buffer, offset: number, sampleCount: number): FrameFeatures => {
+  let sumSq = 0;
+  let crossings = 0;
+  let previous = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = pcm.readInt16LE(offset + i * 2);
+    sumSq += sample * sample;
+    if (i > 0 && (sample >= 0) !== (previous >= 0)) {
+      crossings += 1;
+    }
+    previous = sample;
+  }
+  return {
+    energy: Math.sqrt(sumSq / sampleCount) / 32768,
+    zeroCrossingRate: sampleCount > 1 ? crossings / (sampleCount - 1) : 0,
+  };
+};
+
+// Energy + zero-crossing-rate voice activity detector with hangover, fed with
+// 16-bit little-endian mono PCM chunks as they come from the microphone.
+export function createVoiceActivityDetector({
+  energyThreshold,
+  hangoverMs,
+  minSpeechMs = 150,
+  sampleRate = SAMPLE_RATE,
+}: VadOptions) {
+  const samplesPerFrame = Math.round((sampleRate * FRAME_MS) / 1000);
+  let noiseFloor = 0;
+  let isSpeaking = false;
+  let speechMs = 0;
+  let silenceMs = 0;
+  // Audio between the first frame of the current speech and the end of the last chunk
+  let speechStartOffsetMs = 0;
+
+  const isSpeechFrame = ({ energy, zeroCrossingRate }: FrameFeatures) => {
+    const threshold = Math.max(energyThreshold, noiseFloor * NOISE_FLOOR_MARGIN);
+    if (energy >= threshold) {
+      return true;
+    }
+    return (
+      energy >= threshold * FRICATIVE_ENERGY_FACTOR &&
+      zeroCrossingRate >= FRICATIVE_ZCR_MIN &&
+      zeroCrossingRate <= FRICATIVE_ZCR_MAX
+    );
+  };
+
+  const processFrame = (features: FrameFeatures): VadEvent | null => {
+    const speech = isSpeechFrame(features);
+    if (!speech) {
+      noiseFloor += (features.energy - noiseFloor) * NOISE_FLOOR_ADAPTATION;
+    }
+
+    if (!isSpeaking) {
+      speechMs = speech ? speechMs + FRAME_MS : 0;
+      if (speechMs >= minSpeechMs) {
+        isSpeaking = true;
+        silenceMs = 0;
+        return 'speech_start';
+      }
+      return null;
+    }
+
+    silenceMs = speech ? 0 : silenceMs + FRAME_MS;
+    if (silenceMs >= hangoverMs) {
+      isSpeaking = false;
+      speechMs = 0;
+      return 'speech_end';
+    }
+    return null;
+  };
+
+  return {
+    // Returns the last transition seen in this chunk, if any
+    process: (pcm: Buffer): VadEvent | null => {
+      let event: VadEvent | null = null;
+      const totalSamples = Math.floor(pcm.length / 2);
+      const chunkMs = (totalSamples / sampleRate) * 1000;
+      for (let start = 0; start + samplesPerFrame <= totalSamples; start += samplesPerFrame) {
+        const frameEvent = processFrame(analyzeFrame(pcm, start * 2, samplesPerFrame));
+        if (frameEvent) {
+          event = frameEvent;
+        }
+        if (frameEvent === 'speech_start') {
+          // The turn starts minSpeechMs late, at the frame that confirms it
+          const frameEndMs = ((start + samplesPerFrame) / sampleRate) * 1000;
+          speechStartOffsetMs = chunkMs - frameEndMs + speechMs;
+        }
+      }
+      return event;
+    },
+    isSpeaking: () => isSpeaking,
+    // How long before the end of the last processed chunk the current speech began,
+    // for placing the turn start that 'speech_start' reports late
+    speechStartOffsetMs: () => speechStartOffsetMs,
+    reset: () => {
+      isSpeaking = false;
+      speechMs = 0;
+      silenceMs = 0;
+    },
+  };
+}
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
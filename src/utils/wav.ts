@@ -0,0 +1,53 @@
+import { Buffer } from 'buffer';
+
+export const SAMPLE_RATE = 16000;
+export const CHANNELS = 1;
+export const BITS_PER_SAMPLE = 16;
+
+export const WAV_HEADER_SIZE = 44;
+
+// Wrap raw PCM in a RIFF/WAVE header so it can be uploaded or played back as a file
+export const encodeWav = (
+  pcm: Buffer,
+  sampleRate: number = SAMPLE_RATE,
+  channels: number = CHANNELS,
+  bitsPerSample: number = BITS_PER_SAMPLE,
+): Buffer => {
+  const byteRate = (sampleRate * channels * bitsPerSample) / 8;
+  const blockAlign = (channels * bitsPerSample) / 8;
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // PCM fmt chunk size
+  header.writeUInt16LE(1, 20); // Audio format: PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+};
+
+// Concatenate base64 PCM chunks as sent to the transcription backend
+export const concatBase64Pcm = (chunks: string[]): Buffer =>
+  Buffer.concat(chunks.map((chunk) => Buffer.from(chunk, 'base64')));
+
+// Offset of the PCM payload; recorders may put extra chunks (e.g. iOS 'FLLR' padding) before 'data'
+export const findWavDataOffset = (header: Buffer): number => {
+  let offset = 12; // After 'RIFF', size and 'WAVE'
+  while (offset + 8 <= header.length) {
+    const chunkId = header.toString('ascii', offset, offset + 4);
+    const chunkSize = header.readUInt32LE(offset + 4);
+    if (chunkId === 'data') {
+      return offset + 8;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2); // Chunks are word aligned
+  }
+  return WAV_HEADER_SIZE;
+};